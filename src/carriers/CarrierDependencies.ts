@@ -0,0 +1,65 @@
+import type { ICarrierAuth } from "../core/ICarrierAuth.js";
+import { CircuitBreakerRegistry } from "../infra/CircuitBreaker.js";
+import { HttpClient, type HttpClientOptions } from "../infra/HttpClient.js";
+import { Telemetry } from "../infra/Telemetry.js";
+import { telemetryMiddleware } from "../registry/middleware.js";
+import type { RegisterOptions } from "../registry/OperationRegistry.js";
+
+/** Shared infrastructure handed to every carrier's `register*Carrier` function. */
+export interface CarrierDependencies {
+	breakers?: CircuitBreakerRegistry;
+	telemetry?: Telemetry;
+	/** Timeout and retry tuning for every carrier API call. */
+	http?: Pick<HttpClientOptions, "timeoutMs" | "retry">;
+}
+
+/** `CarrierDependencies` once a carrier has filled in its own defaults. */
+export interface ResolvedCarrierDependencies extends CarrierDependencies {
+	breakers: CircuitBreakerRegistry;
+	telemetry: Telemetry;
+}
+
+/** What a `register*Carrier` function hands back, e.g. for credential checks. */
+export interface RegisteredCarrier {
+	carrier: string;
+	/** Credentials of the default account. */
+	auth: ICarrierAuth;
+	/** Credentials of each named account, for carriers configured with some. */
+	accounts?: ReadonlyMap<string, ICarrierAuth>;
+}
+
+/** Fills in a private telemetry and breaker registry for anything not shared. */
+export function resolveCarrierDependencies(
+	deps: CarrierDependencies,
+): ResolvedCarrierDependencies {
+	return {
+		...deps,
+		telemetry: deps.telemetry ?? new Telemetry(),
+		breakers: deps.breakers ?? new CircuitBreakerRegistry(),
+	};
+}
+
+/** The HTTP client for one carrier account, behind the carrier's circuit breaker. */
+export function carrierHttp(
+	deps: ResolvedCarrierDependencies,
+	carrier: string,
+	baseURL: string,
+	auth: ICarrierAuth,
+): HttpClient {
+	return new HttpClient({
+		...deps.http,
+		baseURL,
+		carrier,
+		auth,
+		circuitBreaker: deps.breakers.forCarrier(carrier),
+		telemetry: deps.telemetry,
+	});
+}
+
+/**
+ * Options every carrier registers its operations with, so rejected input is
+ * reported through the same telemetry as the HTTP calls.
+ */
+export function carrierRegisterOptions(telemetry: Telemetry): RegisterOptions {
+	return { middleware: [telemetryMiddleware(telemetry)] };
+}
@@ -0,0 +1,168 @@
+import { toMoney } from "../../core/money.js";
+import type {
+	Address,
+	Charge,
+	Package,
+	RateQuote,
+	RateRequest,
+} from "../../core/types.js";
+import {
+	billableWeight,
+	type DimWeightRules,
+	isMetric,
+} from "../../core/units.js";
+import type {
+	FedexRatedShipmentDetail,
+	FedexRateReplyDetail,
+	FedexRateRequest,
+} from "./fedex.types.js";
+
+const FEDEX_DIM_WEIGHT_RULES: DimWeightRules = {
+	imperialDivisor: 139,
+	metricDivisor: 5000,
+};
+
+const TRANSIT_DAYS: Record<string, number> = {
+	ONE_DAY: 1,
+	TWO_DAYS: 2,
+	THREE_DAYS: 3,
+	FOUR_DAYS: 4,
+	FIVE_DAYS: 5,
+	SIX_DAYS: 6,
+	SEVEN_DAYS: 7,
+	EIGHT_DAYS: 8,
+	NINE_DAYS: 9,
+	TEN_DAYS: 10,
+};
+
+export function toFedexRequest(
+	input: RateRequest,
+	accountNumber: string,
+): FedexRateRequest {
+	return {
+		accountNumber: { value: accountNumber },
+		requestedShipment: {
+			shipper: { address: toFedexAddress(input.origin) },
+			recipient: { address: toFedexAddress(input.destination) },
+			pickupType: "DROPOFF_AT_FEDEX_LOCATION",
+			rateRequestType: ["ACCOUNT", "LIST"],
+			requestedPackageLineItems: input.packages.map(toFedexPackage),
+		},
+	};
+}
+
+export function fromFedexResponse(
+	details: FedexRateReplyDetail[],
+	input: RateRequest,
+): RateQuote[] {
+	// FedEx bills US-origin shipments in pounds and the rest of the world in kilograms
+	const billable = billableWeight(
+		input.packages,
+		input.origin.countryCode === "US" ? "imperial" : "metric",
+		FEDEX_DIM_WEIGHT_RULES,
+	);
+
+	return details.flatMap((d) => {
+		// account rates reflect our contract; fall back to whatever FedEx returned first
+		const rated =
+			d.ratedShipmentDetails.find((r) => r.rateType === "ACCOUNT") ??
+			d.ratedShipmentDetails[0];
+		if (!rated) return [];
+
+		const quote: RateQuote = {
+			carrier: "FEDEX",
+			serviceCode: d.serviceType,
+			serviceName: d.serviceName ?? d.serviceType,
+			totalCharge: toMoney(rated.totalNetCharge, rated.currency),
+			charges: toCharges(rated),
+			billableWeight: billable,
+		};
+
+		const list = d.ratedShipmentDetails.find((r) => r.rateType === "LIST");
+		if (list) {
+			quote.publishedCharge = toMoney(list.totalNetCharge, list.currency);
+		}
+		if (rated.rateType === "ACCOUNT") {
+			quote.negotiatedCharge = quote.totalCharge;
+		}
+
+		const transitTime = d.operationalDetail?.transitTime;
+		const daysInTransit =
+			transitTime !== undefined ? TRANSIT_DAYS[transitTime] : undefined;
+		if (daysInTransit !== undefined) {
+			quote.estimatedDeliveryDays = daysInTransit;
+		}
+
+		const deliveryDate =
+			d.commit?.dateDetail?.dayFormat ?? d.operationalDetail?.deliveryDate;
+		if (deliveryDate !== undefined) {
+			quote.deliveryDate = deliveryDate.slice(0, 10);
+		}
+		const ineligible = d.operationalDetail?.ineligibleForMoneyBackGuarantee;
+		if (ineligible !== undefined) {
+			quote.deliveryGuaranteed = !ineligible;
+			if (!ineligible && quote.deliveryDate !== undefined) {
+				quote.guaranteedDeliveryDate = quote.deliveryDate;
+			}
+		}
+
+		return [quote];
+	});
+}
+
+function toCharges(rated: FedexRatedShipmentDetail): Charge[] {
+	const charges: Charge[] = [];
+	if (rated.totalBaseCharge !== undefined) {
+		charges.push({
+			type: "base",
+			description: "Base charge",
+			amount: toMoney(rated.totalBaseCharge, rated.currency),
+		});
+	}
+	for (const surcharge of rated.shipmentRateDetail?.surCharges ?? []) {
+		charges.push({
+			type: surcharge.type === "FUEL" ? "fuel" : "surcharge",
+			description: surcharge.description ?? surcharge.type,
+			amount: toMoney(surcharge.amount, rated.currency),
+		});
+	}
+	return charges;
+}
+
+function toFedexAddress(address: Address) {
+	const lines = [address.line1];
+	if (address.line2) lines.push(address.line2);
+	return {
+		streetLines: lines,
+		city: address.city,
+		...(address.stateCode !== undefined && {
+			stateOrProvinceCode: address.stateCode,
+		}),
+		postalCode: address.postalCode,
+		countryCode: address.countryCode,
+	};
+}
+
+/** FedEx accepts either unit system, so each package is sent as declared. */
+function toFedexPackage(pkg: Package) {
+	if (isMetric(pkg)) {
+		return {
+			weight: { units: "KG" as const, value: pkg.weightKg },
+			dimensions: {
+				length: pkg.lengthCm,
+				width: pkg.widthCm,
+				height: pkg.heightCm,
+				units: "CM" as const,
+			},
+		};
+	}
+	return {
+		weight: { units: "LB" as const, value: pkg.weightLbs },
+		dimensions: {
+			length: pkg.lengthIn,
+			width: pkg.widthIn,
+			height: pkg.heightIn,
+			units: "IN" as const,
+		},
+	};
+}
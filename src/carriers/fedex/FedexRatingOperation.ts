@@ -0,0 +1,46 @@
+import {
+	type Accessorial,
+	assertAccessorialsSupported,
+} from "../../core/accessorials.js";
+import { AppError, CarrierApiError } from "../../core/errors.js";
+import type { ICarrierOperation } from "../../core/ICarrierOperation.js";
+import type { RateQuote, RateRequest } from "../../core/types.js";
+import type { HttpClient } from "../../infra/HttpClient.js";
+import { fromFedexResponse, toFedexRequest } from "./FedexMapper.js";
+import { FedexRateResponseSchema } from "./fedex.types.js";
+
+// no accessorials are mapped to FedEx yet, so any of them is rejected
+const SUPPORTED_ACCESSORIALS: ReadonlySet<Accessorial> = new Set();
+
+export class FedexRatingOperation
+	implements ICarrierOperation<RateRequest, RateQuote[]>
+{
+	constructor(
+		private readonly http: HttpClient,
+		private readonly accountNumber: string,
+	) {}
+
+	async execute(input: RateRequest): Promise<RateQuote[]> {
+		assertAccessorialsSupported("FedEx", input, SUPPORTED_ACCESSORIALS);
+		const body = toFedexRequest(input, this.accountNumber);
+		const data = await this.fetchRates(body);
+		return fromFedexResponse(data.output.rateReplyDetails, input);
+	}
+
+	private async fetchRates(body: unknown) {
+		try {
+			const data = await this.http.request<unknown>({
+				method: "POST",
+				url: "/rate/v1/rates/quotes",
+				data: body,
+				idempotent: true,
+			});
+			return FedexRateResponseSchema.parse(data);
+		} catch (error) {
+			if (error instanceof AppError) throw error;
+			throw new CarrierApiError("FedEx rating request failed", 0, undefined, {
+				cause: error instanceof Error ? error : undefined,
+			});
+		}
+	}
+}
@@ -0,0 +1,92 @@
+import { z } from "zod";
+
+// Request schemas
+
+const FedexAddressSchema = z.object({
+	streetLines: z.array(z.string()),
+	city: z.string(),
+	stateOrProvinceCode: z.string().optional(),
+	postalCode: z.string(),
+	countryCode: z.string(),
+});
+
+const FedexPackageLineItemSchema = z.object({
+	weight: z.object({
+		units: z.enum(["LB", "KG"]),
+		value: z.number(),
+	}),
+	dimensions: z.object({
+		length: z.number(),
+		width: z.number(),
+		height: z.number(),
+		units: z.enum(["IN", "CM"]),
+	}),
+});
+
+export const FedexRateRequestSchema = z.object({
+	accountNumber: z.object({ value: z.string() }),
+	requestedShipment: z.object({
+		shipper: z.object({ address: FedexAddressSchema }),
+		recipient: z.object({ address: FedexAddressSchema }),
+		pickupType: z.string(),
+		serviceType: z.string().optional(),
+		rateRequestType: z.array(z.enum(["LIST", "ACCOUNT", "PREFERRED"])),
+		requestedPackageLineItems: z.array(FedexPackageLineItemSchema),
+	}),
+});
+
+export type FedexRateRequest = z.infer<typeof FedexRateRequestSchema>;
+
+// Response schemas
+
+const FedexRatedShipmentDetailSchema = z.object({
+	rateType: z.string(),
+	totalBaseCharge: z.number().optional(),
+	totalNetCharge: z.number(),
+	currency: z.string(),
+	shipmentRateDetail: z
+		.object({
+			surCharges: z
+				.array(
+					z.object({
+						type: z.string(),
+						description: z.string().optional(),
+						amount: z.number(),
+					}),
+				)
+				.optional(),
+		})
+		.optional(),
+});
+
+const FedexRateReplyDetailSchema = z.object({
+	serviceType: z.string(),
+	serviceName: z.string().optional(),
+	ratedShipmentDetails: z.array(FedexRatedShipmentDetailSchema).min(1),
+	operationalDetail: z
+		.object({
+			transitTime: z.string().optional(),
+			deliveryDate: z.string().optional(),
+			/** FedEx's money-back guarantee; `false` means the commit date is guaranteed. */
+			ineligibleForMoneyBackGuarantee: z.boolean().optional(),
+		})
+		.optional(),
+	commit: z
+		.object({
+			dateDetail: z.object({ dayFormat: z.string().optional() }).optional(),
+		})
+		.optional(),
+});
+
+export const FedexRateResponseSchema = z.object({
+	transactionId: z.string(),
+	output: z.object({
+		rateReplyDetails: z.array(FedexRateReplyDetailSchema),
+	}),
+});
+
+export type FedexRateResponse = z.infer<typeof FedexRateResponseSchema>;
+export type FedexRateReplyDetail = z.infer<typeof FedexRateReplyDetailSchema>;
+export type FedexRatedShipmentDetail = z.infer<
+	typeof FedexRatedShipmentDetailSchema
+>;
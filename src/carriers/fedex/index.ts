@@ -0,0 +1 @@
+export { FedexRatingOperation } from "./FedexRatingOperation.js";
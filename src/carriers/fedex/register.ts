@@ -0,0 +1,36 @@
+import type { Config } from "../../config.js";
+import { AccountRoutedOperation } from "../../registry/accounts.js";
+import type { OperationRegistry } from "../../registry/OperationRegistry.js";
+import {
+	type CarrierDependencies,
+	carrierHttp,
+	carrierRegisterOptions,
+	type RegisteredCarrier,
+	resolveCarrierDependencies,
+} from "../CarrierDependencies.js";
+import { FedexAuthClient } from "./FedexAuthClient.js";
+import { FedexRatingOperation } from "./FedexRatingOperation.js";
+
+/** Registers FedEx operations. A no-op when the optional `fedex` config section is absent. */
+export function registerFedexCarrier(
+	registry: OperationRegistry,
+	config: Config,
+	deps: CarrierDependencies = {},
+): RegisteredCarrier | undefined {
+	if (!config.fedex) return undefined;
+
+	const shared = resolveCarrierDependencies(deps);
+	const auth = new FedexAuthClient(config.fedex);
+	const http = carrierHttp(shared, "fedex", config.fedex.baseUrl, auth);
+
+	registry.register(
+		"fedex:rating",
+		new AccountRoutedOperation(
+			"fedex:rating",
+			new FedexRatingOperation(http, config.fedex.accountNumber),
+		),
+		carrierRegisterOptions(shared.telemetry),
+	);
+
+	return { carrier: "fedex", auth };
+}
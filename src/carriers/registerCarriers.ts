@@ -0,0 +1,22 @@
+import type { Config } from "../config.js";
+import type { OperationRegistry } from "../registry/OperationRegistry.js";
+import type {
+	CarrierDependencies,
+	RegisteredCarrier,
+} from "./CarrierDependencies.js";
+import { registerFedexCarrier } from "./fedex/register.js";
+import { registerUpsCarrier } from "./ups/register.js";
+import { registerUspsCarrier } from "./usps/register.js";
+
+/** Registers every carrier with a config section and returns the ones that were. */
+export function registerCarriers(
+	registry: OperationRegistry,
+	config: Config,
+	deps: CarrierDependencies = {},
+): RegisteredCarrier[] {
+	return [
+		registerUpsCarrier(registry, config, deps),
+		registerFedexCarrier(registry, config, deps),
+		registerUspsCarrier(registry, config, deps),
+	].filter((carrier) => carrier !== undefined);
+}
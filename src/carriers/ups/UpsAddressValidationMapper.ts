@@ -0,0 +1,93 @@
+import type {
+	Address,
+	AddressCandidate,
+	AddressClassification,
+	AddressMatch,
+	AddressValidationResult,
+} from "../../core/types.js";
+import { toUpsRequestHeader } from "./UpsMapper.js";
+import {
+	UPS_ADDRESS_CLASSIFICATION,
+	type UpsXavCandidate,
+	type UpsXavRequest,
+	type UpsXavResponse,
+} from "./ups.types.js";
+
+export function toUpsXavRequest(
+	address: Address,
+	correlationId?: string,
+): UpsXavRequest {
+	const lines = [address.line1];
+	if (address.line2) lines.push(address.line2);
+	const [primary, extended] = address.postalCode.split("-");
+
+	return {
+		XAVRequest: {
+			Request: toUpsRequestHeader(correlationId),
+			AddressKeyFormat: {
+				AddressLine: lines,
+				PoliticalDivision2: address.city,
+				...(address.stateCode !== undefined && {
+					PoliticalDivision1: address.stateCode,
+				}),
+				PostcodePrimaryLow: primary ?? address.postalCode,
+				...(extended !== undefined && { PostcodeExtendedLow: extended }),
+				CountryCode: address.countryCode,
+			},
+		},
+	};
+}
+
+export function fromUpsXavResponse(
+	response: UpsXavResponse["XAVResponse"],
+): AddressValidationResult {
+	const candidates =
+		response.Candidate === undefined
+			? []
+			: Array.isArray(response.Candidate)
+				? response.Candidate
+				: [response.Candidate];
+
+	return {
+		carrier: "UPS",
+		match: toMatch(response),
+		classification: toClassification(response.AddressClassification?.Code),
+		candidates: candidates.map(toCandidate),
+	};
+}
+
+function toMatch(response: UpsXavResponse["XAVResponse"]): AddressMatch {
+	if (response.ValidAddressIndicator !== undefined) return "exact";
+	if (response.AmbiguousAddressIndicator !== undefined) return "ambiguous";
+	return "none";
+}
+
+function toClassification(code: string | undefined): AddressClassification {
+	return (code !== undefined && UPS_ADDRESS_CLASSIFICATION[code]) || "unknown";
+}
+
+function toCandidate(candidate: UpsXavCandidate): AddressCandidate {
+	const key = candidate.AddressKeyFormat;
+	const [line1 = "", line2] = Array.isArray(key.AddressLine)
+		? key.AddressLine
+		: [key.AddressLine];
+	const classification = toClassification(
+		candidate.AddressClassification?.Code,
+	);
+
+	const address: Address = {
+		line1,
+		city: key.PoliticalDivision2,
+		postalCode: key.PostcodeExtendedLow
+			? `${key.PostcodePrimaryLow}-${key.PostcodeExtendedLow}`
+			: key.PostcodePrimaryLow,
+		countryCode: key.CountryCode,
+	};
+	if (line2) address.line2 = line2;
+	if (key.PoliticalDivision1) address.stateCode = key.PoliticalDivision1;
+	if (classification !== "unknown") {
+		address.residential = classification === "residential";
+	}
+
+	return { address, classification };
+}
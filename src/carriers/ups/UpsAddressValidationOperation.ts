@@ -0,0 +1,58 @@
+import {
+	AppError,
+	CarrierApiError,
+	ValidationError,
+} from "../../core/errors.js";
+import type { ICarrierOperation } from "../../core/ICarrierOperation.js";
+import type { Address, AddressValidationResult } from "../../core/types.js";
+import type { HttpClient } from "../../infra/HttpClient.js";
+import { currentCorrelationId } from "../../infra/Telemetry.js";
+import {
+	fromUpsXavResponse,
+	toUpsXavRequest,
+} from "./UpsAddressValidationMapper.js";
+import { UpsXavResponseSchema } from "./ups.types.js";
+
+// UPS street-level validation only covers the US and Puerto Rico
+const SUPPORTED_COUNTRIES = new Set(["US", "PR"]);
+
+/** Request option 3 asks for both validation and residential/commercial classification. */
+const VALIDATE_AND_CLASSIFY = 3;
+
+export class UpsAddressValidationOperation
+	implements ICarrierOperation<Address, AddressValidationResult>
+{
+	constructor(private readonly http: HttpClient) {}
+
+	async execute(input: Address): Promise<AddressValidationResult> {
+		if (!SUPPORTED_COUNTRIES.has(input.countryCode)) {
+			throw new ValidationError(
+				`UPS address validation does not support country ${input.countryCode}`,
+			);
+		}
+
+		const body = toUpsXavRequest(input, currentCorrelationId());
+		const data = await this.validate(body);
+		return fromUpsXavResponse(data.XAVResponse);
+	}
+
+	private async validate(body: unknown) {
+		try {
+			const data = await this.http.request<unknown>({
+				method: "POST",
+				url: `/api/addressvalidation/v2/${VALIDATE_AND_CLASSIFY}`,
+				data: body,
+				idempotent: true,
+			});
+			return UpsXavResponseSchema.parse(data);
+		} catch (error) {
+			if (error instanceof AppError) throw error;
+			throw new CarrierApiError(
+				"UPS address validation request failed",
+				0,
+				undefined,
+				{ cause: error instanceof Error ? error : undefined },
+			);
+		}
+	}
+}
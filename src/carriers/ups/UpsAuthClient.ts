@@ -7,12 +7,18 @@ import {
 	RateLimitError,
 } from "../../core/errors.js";
 import type { ICarrierAuth } from "../../core/ICarrierAuth.js";
-
-const UpsErrorResponseSchema = z.object({
-	response: z.object({
-		errors: z.array(z.object({ code: z.string(), message: z.string() })),
-	}),
-});
+import { parseRetryAfter } from "../../infra/retry.js";
+import {
+	currentCorrelationId,
+	Telemetry,
+	type TokenRefreshEvent,
+} from "../../infra/Telemetry.js";
+import {
+	MemoryTokenStore,
+	type StoredToken,
+	type TokenStore,
+} from "../../infra/TokenStore.js";
+import { UpsErrorResponseSchema } from "./ups.types.js";
 
 const TokenResponseSchema = z.object({
 	token_type: z.string(),
@@ -27,28 +33,129 @@ const TokenResponseSchema = z.object({
 
 const EXPIRY_BUFFER_S = 60;
 
+export interface UpsAuthOptions {
+	/** Defaults to a per-instance memory store; share a file store across processes. */
+	tokenStore?: TokenStore;
+	/** How long before expiry a replacement token is fetched in the background. */
+	refreshAheadMs?: number;
+	telemetry?: Telemetry;
+}
+
 export class UpsAuthClient implements ICarrierAuth {
 	private readonly config: Config["ups"];
-	private cachedToken: string | null = null;
-	private expiresAt = 0;
+	private readonly store: TokenStore;
+	private readonly storeKey: string;
+	private readonly refreshAheadMs: number;
+	private readonly telemetry: Telemetry;
+	private token: StoredToken | null = null;
+	// a token the carrier refused; ignored if another process left it in the store
+	private rejectedToken: string | null = null;
+	private refreshing: Promise<string> | null = null;
+	private refreshTimer: NodeJS.Timeout | undefined;
 
-	constructor(config: Config["ups"]) {
+	constructor(config: Config["ups"], options: UpsAuthOptions = {}) {
 		this.config = config;
+		this.store = options.tokenStore ?? new MemoryTokenStore();
+		this.storeKey = `ups:${config.clientId}@${config.baseUrl}`;
+		this.refreshAheadMs = options.refreshAheadMs ?? 5 * 60_000;
+		this.telemetry = options.telemetry ?? new Telemetry();
 	}
 
 	async accessToken(): Promise<string> {
-		if (this.cachedToken !== null && Date.now() < this.expiresAt) {
-			return this.cachedToken;
+		if (this.token !== null && Date.now() < this.token.expiresAt) {
+			return this.token.accessToken;
 		}
-		return this.authenticate();
+		return this.refresh(Date.now());
 	}
 
-	clearToken(): void {
-		this.cachedToken = null;
-		this.expiresAt = 0;
+	clearToken(rejectedToken = this.token?.accessToken): void {
+		// a burst of 401s for one token shares the refresh the first one started,
+		// and a 401 for a token already replaced changes nothing
+		if (rejectedToken === undefined || rejectedToken === this.rejectedToken) {
+			return;
+		}
+		if (this.token !== null && this.token.accessToken !== rejectedToken) {
+			return;
+		}
+		this.rejectedToken = rejectedToken;
+		this.token = null;
+		// a refresh already in flight may hand back the token just rejected
+		this.refreshing = null;
+		clearTimeout(this.refreshTimer);
+	}
+
+	/**
+	 * Every caller waiting on a refresh shares one in-flight promise, so a burst
+	 * of requests on a cold cache costs a single OAuth call. A stored token is
+	 * adopted instead when it outlives `minExpiresAt`.
+	 */
+	private refresh(minExpiresAt: number): Promise<string> {
+		if (this.refreshing) return this.refreshing;
+		const refreshing = this.loadOrAuthenticate(minExpiresAt).finally(() => {
+			// clearToken() may already have replaced it with a newer refresh
+			if (this.refreshing === refreshing) this.refreshing = null;
+		});
+		this.refreshing = refreshing;
+		return refreshing;
 	}
 
-	private async authenticate(): Promise<string> {
+	private async loadOrAuthenticate(minExpiresAt: number): Promise<string> {
+		const startedAt = Date.now();
+		const stored = await this.store.get(this.storeKey);
+		if (stored && stored.accessToken === this.rejectedToken) {
+			// so other processes sharing the store stop adopting it too
+			await this.store.delete(this.storeKey);
+		} else if (
+			stored &&
+			stored.expiresAt > Math.max(minExpiresAt, Date.now())
+		) {
+			this.use(stored);
+			this.reportRefresh("store", startedAt);
+			return stored.accessToken;
+		}
+
+		try {
+			const token = await this.authenticate();
+			await this.store.set(this.storeKey, token);
+			this.use(token);
+			this.reportRefresh("carrier", startedAt);
+			return token.accessToken;
+		} catch (error) {
+			this.reportRefresh("carrier", startedAt, error);
+			throw error;
+		}
+	}
+
+	private reportRefresh(
+		source: TokenRefreshEvent["source"],
+		startedAt: number,
+		error?: unknown,
+	): void {
+		const correlationId = currentCorrelationId();
+		this.telemetry.tokenRefreshed({
+			carrier: "ups",
+			source,
+			durationMs: Date.now() - startedAt,
+			...(correlationId !== undefined && { correlationId }),
+			...(error !== undefined && { error }),
+		});
+	}
+
+	private use(token: StoredToken): void {
+		this.token = token;
+		clearTimeout(this.refreshTimer);
+
+		const delay = token.expiresAt - this.refreshAheadMs - Date.now();
+		if (delay <= 0) return;
+		this.refreshTimer = setTimeout(() => {
+			// on failure the current token stays in use until it expires
+			this.refresh(token.expiresAt).catch(() => undefined);
+		}, delay);
+		// never keep the process alive just to refresh a token
+		this.refreshTimer.unref();
+	}
+
+	private async authenticate(): Promise<StoredToken> {
 		const credentials = Buffer.from(
 			`${this.config.clientId}:${this.config.clientSecret}`,
 		).toString("base64");
@@ -66,10 +173,10 @@ export class UpsAuthClient implements ICarrierAuth {
 			);
 
 			const parsed = TokenResponseSchema.parse(response.data);
-			this.cachedToken = parsed.access_token;
-			this.expiresAt =
-				Date.now() + (parsed.expires_in - EXPIRY_BUFFER_S) * 1000;
-			return parsed.access_token;
+			return {
+				accessToken: parsed.access_token,
+				expiresAt: Date.now() + (parsed.expires_in - EXPIRY_BUFFER_S) * 1000,
+			};
 		} catch (error) {
 			throw this.toStructuredError(error);
 		}
@@ -98,7 +205,11 @@ export class UpsAuthClient implements ICarrierAuth {
 			return new AuthenticationError(message, { cause: error });
 		}
 		if (status === 429) {
-			return new RateLimitError(message, { cause: error });
+			return new RateLimitError(
+				message,
+				parseRetryAfter(error.response.headers?.["retry-after"]),
+				{ cause: error },
+			);
 		}
 		return new CarrierApiError(message, status, carrierCode, { cause: error });
 	}
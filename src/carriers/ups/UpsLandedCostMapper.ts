@@ -0,0 +1,96 @@
+import { addMoney, customsValue, toMoney } from "../../core/money.js";
+import type {
+	LandedCostItem,
+	LandedCostQuote,
+	LandedCostRequest,
+	Money,
+	RateQuote,
+} from "../../core/types.js";
+import { toUpsMoney } from "./UpsMapper.js";
+import type {
+	UpsLandedCostRequest,
+	UpsLandedCostShipment,
+} from "./ups.types.js";
+
+// UPS Standard and Ground move by truck; every other service flies
+const UPS_GROUND_SERVICES = new Set(["03", "11"]);
+
+/** Asks for duties and taxes in the currency the commodities are declared in. */
+export function toUpsLandedCostRequest(
+	input: LandedCostRequest,
+	transId: string,
+): UpsLandedCostRequest {
+	const { currency } = customsValue(input.commodities);
+	return {
+		currencyCode: currency,
+		transID: transId,
+		allowPartialLandedCostResult: false,
+		alversion: 1,
+		shipment: {
+			id: transId,
+			importCountryCode: input.destination.countryCode,
+			...(input.destination.stateCode !== undefined && {
+				importProvince: input.destination.stateCode,
+			}),
+			exportCountryCode: input.origin.countryCode,
+			...(input.shipDate !== undefined && {
+				shipDate: input.shipDate.slice(0, 10),
+			}),
+			transModes: UPS_GROUND_SERVICES.has(input.serviceCode)
+				? "INT_GROUND"
+				: "INT_AIR",
+			shipmentType: "Sale",
+			shipmentItems: input.commodities.map((c, i) => ({
+				commodityId: String(i + 1),
+				description: c.description,
+				hsCode: c.hsCode,
+				originCountryCode: c.originCountryCode,
+				priceEach: toUpsMoney(c.value).MonetaryValue,
+				commodityCurrencyCode: c.value.currency,
+				quantity: c.quantity,
+				UOM: "Each",
+			})),
+		},
+	};
+}
+
+export function fromUpsLandedCostResponse(
+	shipment: UpsLandedCostShipment,
+	input: LandedCostRequest,
+	shipping: RateQuote,
+): LandedCostQuote {
+	const money = (value: number) => toMoney(value, shipment.currencyCode);
+	const duties = money(shipment.totalDuties);
+	const dutiesAndTaxes = money(shipment.totalDutyAndTax);
+	const brokerageFees = money(shipment.totalBrokerageFees);
+	const importCharges = addMoney(dutiesAndTaxes, brokerageFees);
+
+	const quote: LandedCostQuote = {
+		carrier: "UPS",
+		shipping,
+		duties,
+		taxes: subtract(dutiesAndTaxes, duties),
+		brokerageFees,
+		items: input.commodities.map((commodity, i): LandedCostItem => {
+			const item = shipment.shipmentItems.find(
+				(it) => it.commodityId === String(i + 1),
+			);
+			const itemDuties = money(item?.commodityDuty ?? 0);
+			return {
+				hsCode: item?.hsCode ?? commodity.hsCode,
+				description: commodity.description,
+				duties: itemDuties,
+				taxes: subtract(money(item?.totalCommodityDutyAndTax ?? 0), itemDuties),
+			};
+		}),
+	};
+
+	if (shipping.totalCharge.currency === importCharges.currency) {
+		quote.totalLandedCost = addMoney(shipping.totalCharge, importCharges);
+	}
+	return quote;
+}
+
+function subtract(a: Money, b: Money): Money {
+	return addMoney(a, { amount: -b.amount, currency: b.currency });
+}
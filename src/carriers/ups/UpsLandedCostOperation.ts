@@ -0,0 +1,80 @@
+import {
+	AppError,
+	CarrierApiError,
+	ValidationError,
+} from "../../core/errors.js";
+import type { ICarrierOperation } from "../../core/ICarrierOperation.js";
+import type {
+	LandedCostQuote,
+	LandedCostRequest,
+	RateQuote,
+	RateRequest,
+} from "../../core/types.js";
+import type { HttpClient } from "../../infra/HttpClient.js";
+import { Telemetry } from "../../infra/Telemetry.js";
+import {
+	fromUpsLandedCostResponse,
+	toUpsLandedCostRequest,
+} from "./UpsLandedCostMapper.js";
+import { upsTransactionId } from "./UpsMapper.js";
+import {
+	type UpsLandedCostRequest,
+	UpsLandedCostResponseSchema,
+} from "./ups.types.js";
+
+/**
+ * Prices duties, taxes and brokerage with the UPS Landed Cost API and the
+ * shipping charge with `rating`, in parallel, for one UPS service.
+ */
+export class UpsLandedCostOperation
+	implements ICarrierOperation<LandedCostRequest, LandedCostQuote>
+{
+	constructor(
+		private readonly http: HttpClient,
+		private readonly rating: ICarrierOperation<RateRequest, RateQuote[]>,
+		private readonly telemetry = new Telemetry(),
+	) {}
+
+	async execute(input: LandedCostRequest): Promise<LandedCostQuote> {
+		if (input.origin.countryCode === input.destination.countryCode) {
+			throw new ValidationError(
+				"Landed cost only applies to shipments that cross a border",
+			);
+		}
+
+		const transId = upsTransactionId(this.telemetry);
+		const [quotes, landedCost] = await Promise.all([
+			this.rating.execute(input),
+			this.fetchLandedCost(toUpsLandedCostRequest(input, transId), transId),
+		]);
+
+		const shipping = quotes.find((q) => q.serviceCode === input.serviceCode);
+		if (!shipping) {
+			throw new ValidationError(
+				`UPS does not offer service ${input.serviceCode} from ${input.origin.countryCode} to ${input.destination.countryCode}`,
+			);
+		}
+		return fromUpsLandedCostResponse(landedCost.shipment, input, shipping);
+	}
+
+	private async fetchLandedCost(body: UpsLandedCostRequest, transId: string) {
+		try {
+			const data = await this.http.request<unknown>({
+				method: "POST",
+				url: "/api/landedcost/v1/quotes",
+				data: body,
+				headers: { transId, transactionSrc: "cybership" },
+				idempotent: true,
+			});
+			return UpsLandedCostResponseSchema.parse(data);
+		} catch (error) {
+			if (error instanceof AppError) throw error;
+			throw new CarrierApiError(
+				"UPS landed cost request failed",
+				0,
+				undefined,
+				{ cause: error instanceof Error ? error : undefined },
+			);
+		}
+	}
+}
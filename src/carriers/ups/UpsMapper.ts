@@ -1,87 +1,436 @@
+import { randomUUID } from "node:crypto";
+import {
+	currencyExponent,
+	customsValue,
+	toDecimal,
+	toMoney,
+} from "../../core/money.js";
 import type {
 	Address,
+	Charge,
+	Money,
 	Package,
+	PackageAccessorials,
 	RateQuote,
 	RateRequest,
+	UnitSystem,
 } from "../../core/types.js";
-import type { UpsRatedShipment, UpsRateRequest } from "./ups.types.js";
+import {
+	billableWeight,
+	type DimWeightRules,
+	toImperial,
+	toMetric,
+} from "../../core/units.js";
+import { currentCorrelationId, type Telemetry } from "../../infra/Telemetry.js";
+import {
+	UPS_FUEL_SURCHARGE_CODE,
+	type UpsMonetaryValue,
+	type UpsRatedShipment,
+	type UpsRateRequest,
+} from "./ups.types.js";
 
-export function toUpsRequest(input: RateRequest): UpsRateRequest {
+const IMPERIAL_COUNTRIES = new Set(["US", "PR"]);
+
+// UPS treats shipments between the US and Puerto Rico as domestic
+const DOMESTIC_COUNTRIES = new Set(["US", "PR"]);
+
+// UPS daily-rate divisors
+const UPS_DIM_WEIGHT_RULES: DimWeightRules = {
+	imperialDivisor: 139,
+	metricDivisor: 5000,
+};
+
+/**
+ * Without a shipper number UPS only returns published rates. With one, the
+ * request is billed to that account and asks for its negotiated rates.
+ */
+export function toUpsRequest(
+	input: RateRequest,
+	shipperNumber?: string,
+	correlationId?: string,
+): UpsRateRequest {
+	const domestic = isUpsDomestic(input);
+	const shipmentServiceOptions = toUpsShipmentServiceOptions(input, domestic);
 	return {
 		RateRequest: {
-			Request: {},
+			Request: toUpsRequestHeader(correlationId),
 			Shipment: {
 				Shipper: {
 					Name: "Shipper",
-					ShipperNumber: "",
+					ShipperNumber: shipperNumber ?? "",
 					Address: toUpsAddress(input.origin),
 				},
 				ShipTo: {
 					Name: "Recipient",
-					Address: toUpsAddress(input.destination),
+					Address: toUpsShipToAddress(input.destination),
 				},
 				ShipFrom: {
 					Name: "Sender",
 					Address: toUpsAddress(input.origin),
 				},
+				...(shipperNumber !== undefined && {
+					PaymentDetails: {
+						ShipmentCharge: [
+							{ Type: "01", BillShipper: { AccountNumber: shipperNumber } },
+						],
+					},
+					ShipmentRatingOptions: { NegotiatedRatesIndicator: "" },
+				}),
+				...(shipmentServiceOptions && {
+					ShipmentServiceOptions: shipmentServiceOptions,
+				}),
+				...(!domestic &&
+					input.commodities && {
+						InvoiceLineTotal: toUpsMoney(customsValue(input.commodities)),
+					}),
+				...(input.includeTransitTimes && {
+					DeliveryTimeInformation: toUpsDeliveryTimeInformation(input.shipDate),
+				}),
+				...(input.includeTransitTimes &&
+					!domestic && {
+						ShipmentTotalWeight: toUpsShipmentTotalWeight(input),
+					}),
 				NumOfPieces: String(input.packages.length),
-				Package: input.packages.map(toUpsPackage),
+				Package: input.packages.map((pkg) =>
+					toUpsPackage(pkg, upsUnitSystem(input.origin.countryCode), domestic),
+				),
 			},
 		},
 	};
 }
 
-export function fromUpsResponse(shipments: UpsRatedShipment[]): RateQuote[] {
+export function fromUpsResponse(
+	shipments: UpsRatedShipment[],
+	input: RateRequest,
+): RateQuote[] {
+	const billable = billableWeight(
+		input.packages,
+		upsUnitSystem(input.origin.countryCode),
+		UPS_DIM_WEIGHT_RULES,
+	);
+
 	return shipments.map((s) => {
+		const publishedCharge = fromUpsMoney(s.TotalCharges);
 		const quote: RateQuote = {
 			carrier: "UPS",
 			serviceCode: s.Service.Code,
-			serviceName: s.Service.Description ?? s.Service.Code,
-			totalChargeUSD: Number.parseFloat(s.TotalCharges.MonetaryValue),
+			serviceName: s.Service.Description || s.Service.Code,
+			totalCharge: publishedCharge,
+			publishedCharge,
+			charges: toCharges(s),
+			billableWeight: billable,
 		};
 
-		const daysInTransit =
-			s.GuaranteedDelivery?.BusinessDaysInTransit ??
-			s.TimeInTransit?.ServiceSummary?.EstimatedArrival?.BusinessDaysInTransit;
-		if (daysInTransit !== undefined) {
-			quote.estimatedDeliveryDays = Number.parseInt(daysInTransit, 10);
-		}
-
-		const deliveryDate =
-			s.GuaranteedDelivery?.ScheduledDeliveryDate ??
-			s.TimeInTransit?.ServiceSummary?.EstimatedArrival?.Arrival?.Date;
-		if (deliveryDate !== undefined) {
-			quote.guaranteedDeliveryDate = deliveryDate;
+		if (s.NegotiatedRateCharges) {
+			quote.negotiatedCharge = fromUpsMoney(
+				s.NegotiatedRateCharges.TotalCharge,
+			);
+			quote.totalCharge = quote.negotiatedCharge;
 		}
 
+		Object.assign(quote, toDeliveryCommitment(s));
 		return quote;
 	});
 }
 
-function toUpsAddress(address: Address) {
+type DeliveryCommitment = Pick<
+	RateQuote,
+	| "estimatedDeliveryDays"
+	| "deliveryDate"
+	| "deliveryTime"
+	| "deliveryGuaranteed"
+	| "guaranteedDeliveryDate"
+>;
+
+/**
+ * `GuaranteedDelivery` comes back for guaranteed services on every request
+ * option; `TimeInTransit` only with the time-in-transit options, where it is
+ * the only source of arrival times and of estimates for unguaranteed services.
+ */
+function toDeliveryCommitment(s: UpsRatedShipment): DeliveryCommitment {
+	const summary = s.TimeInTransit?.ServiceSummary;
+	const arrival = summary?.EstimatedArrival;
+	const commitment: DeliveryCommitment = {};
+
+	const daysInTransit =
+		s.GuaranteedDelivery?.BusinessDaysInTransit ??
+		arrival?.BusinessDaysInTransit;
+	if (daysInTransit !== undefined) {
+		commitment.estimatedDeliveryDays = Number.parseInt(daysInTransit, 10);
+	}
+
+	const deliveryDate = fromUpsDate(
+		s.GuaranteedDelivery?.ScheduledDeliveryDate ?? arrival?.Arrival?.Date,
+	);
+	const deliveryTime =
+		fromUpsTime(arrival?.Arrival?.Time) ??
+		fromUpsTime(s.GuaranteedDelivery?.DeliveryByTime);
+	if (deliveryDate !== undefined) commitment.deliveryDate = deliveryDate;
+	if (deliveryTime !== undefined) commitment.deliveryTime = deliveryTime;
+
+	if (s.GuaranteedDelivery !== undefined || summary !== undefined) {
+		commitment.deliveryGuaranteed =
+			s.GuaranteedDelivery !== undefined ||
+			summary?.GuaranteedIndicator !== undefined;
+	}
+	if (commitment.deliveryGuaranteed && deliveryDate !== undefined) {
+		commitment.guaranteedDeliveryDate = deliveryDate;
+	}
+	return commitment;
+}
+
+/** Accepts UPS's YYYYMMDD as well as ISO dates. */
+function fromUpsDate(value: string | undefined): string | undefined {
+	const match = value?.match(/^(\d{4})-?(\d{2})-?(\d{2})$/);
+	return match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+}
+
+/** Reads HHMM[SS] and "10:30 A.M." style times as 24-hour "HH:MM". */
+function fromUpsTime(value: string | undefined): string | undefined {
+	if (value === undefined) return undefined;
+	const compact = value.match(/^(\d{2})(\d{2})(\d{2})?$/);
+	if (compact) return `${compact[1]}:${compact[2]}`;
+
+	const clock = value.match(/^(\d{1,2}):(\d{2})\s*(A\.?M\.?|P\.?M\.?|Noon)?/i);
+	if (!clock) return undefined;
+	let hours = Number(clock[1]);
+	const meridiem = clock[3]?.charAt(0).toUpperCase();
+	if (meridiem === "A" && hours === 12) hours = 0;
+	if (meridiem === "P" && hours < 12) hours += 12;
+	return `${String(hours).padStart(2, "0")}:${clock[2]}`;
+}
+
+/** Billable weight of the whole shipment, which UPS needs to time international lanes. */
+function toUpsShipmentTotalWeight(input: RateRequest) {
+	const { value, unit } = billableWeight(
+		input.packages,
+		upsUnitSystem(input.origin.countryCode),
+		UPS_DIM_WEIGHT_RULES,
+	);
+	return {
+		UnitOfMeasurement: { Code: unit === "kg" ? "KGS" : "LBS" } as const,
+		Weight: String(value),
+	};
+}
+
+/** The block the time-in-transit options need; without a ship date UPS assumes today. */
+function toUpsDeliveryTimeInformation(shipDate: string | undefined) {
+	const [date, time] = shipDate?.split("T") ?? [];
+	return {
+		PackageBillType: "03",
+		...(date !== undefined && {
+			Pickup: {
+				Date: date.replaceAll("-", ""),
+				...(time !== undefined && { Time: time.replace(":", "") }),
+			},
+		}),
+	};
+}
+
+const UPS_TRANSACTION_ID = /^[A-Za-z0-9]{1,32}$/;
+
+/**
+ * A `transId` for UPS APIs that take one: the current correlation ID when UPS
+ * accepts it as is, otherwise a new ID logged next to the correlation ID so a
+ * call UPS support asks about can still be found.
+ */
+export function upsTransactionId(telemetry: Telemetry): string {
+	const correlationId = currentCorrelationId();
+	if (correlationId !== undefined && UPS_TRANSACTION_ID.test(correlationId)) {
+		return correlationId;
+	}
+	const transactionId = randomUUID().replaceAll("-", "");
+	if (correlationId !== undefined) {
+		telemetry.transactionIdAssigned({
+			carrier: "ups",
+			correlationId,
+			transactionId,
+		});
+	}
+	return transactionId;
+}
+
+export function fromUpsMoney(value: UpsMonetaryValue): Money {
+	return toMoney(value.MonetaryValue, value.CurrencyCode);
+}
+
+export function toUpsMoney(money: Money): UpsMonetaryValue {
+	return {
+		CurrencyCode: money.currency,
+		MonetaryValue: toDecimal(money).toFixed(currencyExponent(money.currency)),
+	};
+}
+
+export function isUpsDomestic(input: RateRequest): boolean {
+	return (
+		DOMESTIC_COUNTRIES.has(input.origin.countryCode) &&
+		DOMESTIC_COUNTRIES.has(input.destination.countryCode)
+	);
+}
+
+/**
+ * Saturday delivery, plus signatures on international shipments, which UPS
+ * only takes per shipment; the strictest signature any package asks for wins.
+ */
+function toUpsShipmentServiceOptions(input: RateRequest, domestic: boolean) {
+	const signatures = input.packages.map((pkg) => pkg.accessorials?.signature);
+	const signature = signatures.includes("adult")
+		? "2"
+		: signatures.includes("required")
+			? "1"
+			: undefined;
+	const options = {
+		...(input.accessorials?.saturdayDelivery && {
+			SaturdayDeliveryIndicator: "",
+		}),
+		...(!domestic &&
+			signature !== undefined && {
+				DeliveryConfirmation: { DCISType: signature },
+			}),
+	};
+	return Object.keys(options).length > 0 ? options : undefined;
+}
+
+function toUpsPackageServiceOptions(
+	accessorials: PackageAccessorials,
+	domestic: boolean,
+) {
+	const options = {
+		...(accessorials.declaredValue && {
+			DeclaredValue: toUpsMoney(accessorials.declaredValue),
+		}),
+		...(domestic &&
+			accessorials.signature !== undefined && {
+				DeliveryConfirmation: {
+					DCISType: accessorials.signature === "adult" ? "3" : "2",
+				},
+			}),
+		...(accessorials.cod && {
+			// 0 = check, cashier's check or money order
+			COD: { CODFundsCode: "0", CODAmount: toUpsMoney(accessorials.cod) },
+		}),
+		...(accessorials.dryIceKg !== undefined && {
+			DryIce: {
+				// US domestic ground rules; anything crossing a border flies under IATA
+				RegulationSet: domestic ? ("CFR" as const) : ("IATA" as const),
+				DryIceWeight: {
+					UnitOfMeasurement: { Code: "00" },
+					Weight: String(accessorials.dryIceKg),
+				},
+			},
+		}),
+	};
+	return Object.keys(options).length > 0 ? options : undefined;
+}
+
+function toCharges(s: UpsRatedShipment): Charge[] {
+	const charges: Charge[] = [];
+	if (s.BaseServiceCharge) {
+		charges.push({
+			type: "base",
+			description: "Base service charge",
+			amount: fromUpsMoney(s.BaseServiceCharge),
+		});
+	}
+	if (s.TransportationCharges) {
+		charges.push({
+			type: "transportation",
+			description: "Transportation charges",
+			amount: fromUpsMoney(s.TransportationCharges),
+		});
+	}
+	if (s.ServiceOptionsCharges) {
+		charges.push({
+			type: "service_options",
+			description: "Service options charges",
+			amount: fromUpsMoney(s.ServiceOptionsCharges),
+		});
+	}
+	for (const item of s.ItemizedCharges ?? []) {
+		charges.push({
+			type: item.Code === UPS_FUEL_SURCHARGE_CODE ? "fuel" : "surcharge",
+			description: item.Description || `UPS charge ${item.Code}`,
+			amount: fromUpsMoney(item),
+		});
+	}
+	return charges;
+}
+
+/** The `Request` block shared by UPS JSON APIs, tagging the call with our correlation ID. */
+export function toUpsRequestHeader(correlationId?: string) {
+	return correlationId === undefined
+		? {}
+		: { TransactionReference: { CustomerContext: correlationId } };
+}
+
+export function toUpsAddress(address: Address) {
 	const lines = [address.line1];
 	if (address.line2) lines.push(address.line2);
 	return {
 		AddressLine: lines,
 		City: address.city,
-		StateProvinceCode: address.stateCode,
+		...(address.stateCode !== undefined && {
+			StateProvinceCode: address.stateCode,
+		}),
 		PostalCode: address.postalCode,
 		CountryCode: address.countryCode,
 	};
 }
 
-function toUpsPackage(pkg: Package) {
+/** Destination address, flagged residential so UPS quotes the residential surcharge. */
+export function toUpsShipToAddress(address: Address) {
+	return {
+		...toUpsAddress(address),
+		...(address.residential && { ResidentialAddressIndicator: "" }),
+	};
+}
+
+function toUpsPackage(pkg: Package, system: UnitSystem, domestic: boolean) {
+	const serviceOptions =
+		pkg.accessorials && toUpsPackageServiceOptions(pkg.accessorials, domestic);
 	return {
 		PackagingType: { Code: "02", Description: "Package" },
+		...toUpsMeasurements(pkg, system),
+		...(pkg.accessorials?.additionalHandling && {
+			AdditionalHandlingIndicator: "",
+		}),
+		...(serviceOptions && { PackageServiceOptions: serviceOptions }),
+	};
+}
+
+/** UPS expects the shipper country's units: pounds and inches from the US, kilograms and centimetres elsewhere. */
+export function upsUnitSystem(originCountryCode: string): UnitSystem {
+	return IMPERIAL_COUNTRIES.has(originCountryCode) ? "imperial" : "metric";
+}
+
+export function toUpsMeasurements(pkg: Package, system: UnitSystem) {
+	if (system === "metric") {
+		const metric = toMetric(pkg);
+		return {
+			Dimensions: {
+				UnitOfMeasurement: { Code: "CM" },
+				Length: String(metric.lengthCm),
+				Width: String(metric.widthCm),
+				Height: String(metric.heightCm),
+			},
+			PackageWeight: {
+				UnitOfMeasurement: { Code: "KGS" },
+				Weight: String(metric.weightKg),
+			},
+		};
+	}
+
+	const imperial = toImperial(pkg);
+	return {
 		Dimensions: {
 			UnitOfMeasurement: { Code: "IN" },
-			Length: String(pkg.lengthIn),
-			Width: String(pkg.widthIn),
-			Height: String(pkg.heightIn),
+			Length: String(imperial.lengthIn),
+			Width: String(imperial.widthIn),
+			Height: String(imperial.heightIn),
 		},
 		PackageWeight: {
 			UnitOfMeasurement: { Code: "LBS" },
-			Weight: String(pkg.weightLbs),
+			Weight: String(imperial.weightLbs),
 		},
 	};
 }
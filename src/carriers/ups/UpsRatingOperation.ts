@@ -1,12 +1,18 @@
-import { CarrierApiError, ValidationError } from "../../core/errors.js";
-import type { ICarrierOperation } from "../../core/ICarrierOperation.js";
 import {
-	type RateQuote,
-	type RateRequest,
-	RateRequestSchema,
-} from "../../core/types.js";
+	type Accessorial,
+	assertAccessorialsSupported,
+	requestedAccessorials,
+} from "../../core/accessorials.js";
+import {
+	AppError,
+	CarrierApiError,
+	ValidationError,
+} from "../../core/errors.js";
+import type { ICarrierOperation } from "../../core/ICarrierOperation.js";
+import type { RateQuote, RateRequest } from "../../core/types.js";
 import type { HttpClient } from "../../infra/HttpClient.js";
-import { fromUpsResponse, toUpsRequest } from "./UpsMapper.js";
+import { currentCorrelationId } from "../../infra/Telemetry.js";
+import { fromUpsResponse, isUpsDomestic, toUpsRequest } from "./UpsMapper.js";
 import { UpsRateResponseSchema } from "./ups.types.js";
 
 export type UpsRequestOption =
@@ -15,35 +21,65 @@ export type UpsRequestOption =
 	| "Ratetimeintransit"
 	| "Shoptimeintransit";
 
+const WITH_TRANSIT_TIMES: Record<UpsRequestOption, UpsRequestOption> = {
+	Rate: "Ratetimeintransit",
+	Shop: "Shoptimeintransit",
+	Ratetimeintransit: "Ratetimeintransit",
+	Shoptimeintransit: "Shoptimeintransit",
+};
+
+// hazmat is left out: UPS rates it only from chemical records RateRequest does not carry
+const UPS_ACCESSORIALS: ReadonlySet<Accessorial> = new Set<Accessorial>([
+	"declaredValue",
+	"signature",
+	"cod",
+	"additionalHandling",
+	"dryIceKg",
+	"saturdayDelivery",
+]);
+
 export class UpsRatingOperation
 	implements ICarrierOperation<RateRequest, RateQuote[]>
 {
 	constructor(
 		private readonly http: HttpClient,
 		private readonly requestOption: UpsRequestOption = "Shop",
+		private readonly shipperNumber?: string,
 	) {}
 
 	async execute(input: RateRequest): Promise<RateQuote[]> {
-		const parsed = RateRequestSchema.safeParse(input);
-		if (!parsed.success) {
-			throw new ValidationError(parsed.error.message);
+		assertAccessorialsSupported("UPS", input, UPS_ACCESSORIALS);
+		if (requestedAccessorials(input).includes("cod") && !isUpsDomestic(input)) {
+			throw new ValidationError(
+				"UPS only collects COD on packages within the US and Puerto Rico",
+			);
 		}
 
-		const body = toUpsRequest(parsed.data);
-		const data = await this.fetchRates(body);
-		return fromUpsResponse(data.RateResponse.RatedShipment);
+		const body = toUpsRequest(
+			input,
+			this.shipperNumber,
+			currentCorrelationId(),
+		);
+		const data = await this.fetchRates(
+			body,
+			input.includeTransitTimes
+				? WITH_TRANSIT_TIMES[this.requestOption]
+				: this.requestOption,
+		);
+		return fromUpsResponse(data.RateResponse.RatedShipment, input);
 	}
 
-	private async fetchRates(body: unknown) {
+	private async fetchRates(body: unknown, requestOption: UpsRequestOption) {
 		try {
 			const data = await this.http.request<unknown>({
 				method: "POST",
-				url: `/api/rating/v2409/${this.requestOption}`,
+				url: `/api/rating/v2409/${requestOption}`,
 				data: body,
+				idempotent: true,
 			});
 			return UpsRateResponseSchema.parse(data);
 		} catch (error) {
-			if (error instanceof CarrierApiError) throw error;
+			if (error instanceof AppError) throw error;
 			throw new CarrierApiError("UPS rating request failed", 0, undefined, {
 				cause: error instanceof Error ? error : undefined,
 			});
@@ -0,0 +1,132 @@
+import {
+	type LabelFormat,
+	LabelFormatSchema,
+	type ShipmentRequest,
+	type ShipmentResult,
+	type ShippingLabel,
+} from "../../core/types.js";
+import {
+	fromUpsMoney,
+	toUpsAddress,
+	toUpsMeasurements,
+	toUpsRequestHeader,
+	toUpsShipToAddress,
+	upsUnitSystem,
+} from "./UpsMapper.js";
+import type { UpsShipmentResults, UpsShipRequest } from "./ups.types.js";
+
+// UPS renders labels as GIF, PNG or ZPL images (EPL and SPL are not modelled); it has no PDF
+const UPS_LABEL_FORMATS: ReadonlySet<LabelFormat> = new Set([
+	"GIF",
+	"PNG",
+	"ZPL",
+]);
+
+/** The label format UPS uses when a shipment does not ask for one. */
+export const UPS_DEFAULT_LABEL_FORMAT: LabelFormat = "GIF";
+
+export function isUpsLabelFormat(format: LabelFormat): boolean {
+	return UPS_LABEL_FORMATS.has(format);
+}
+
+export function toUpsShipRequest(
+	input: ShipmentRequest,
+	shipperNumber: string,
+	correlationId?: string,
+): UpsShipRequest {
+	const labelFormat = input.labelFormat ?? UPS_DEFAULT_LABEL_FORMAT;
+
+	return {
+		ShipmentRequest: {
+			Request: {
+				RequestOption: "nonvalidate",
+				...toUpsRequestHeader(correlationId),
+			},
+			Shipment: {
+				...(input.description !== undefined && {
+					Description: input.description,
+				}),
+				Shipper: {
+					Name: input.shipper.name,
+					...(input.shipper.phone !== undefined && {
+						Phone: { Number: input.shipper.phone },
+					}),
+					ShipperNumber: shipperNumber,
+					Address: toUpsAddress(input.origin),
+				},
+				ShipTo: {
+					Name: input.recipient.name,
+					...(input.recipient.phone !== undefined && {
+						Phone: { Number: input.recipient.phone },
+					}),
+					...(input.recipient.email !== undefined && {
+						EMailAddress: input.recipient.email,
+					}),
+					Address: toUpsShipToAddress(input.destination),
+				},
+				ShipFrom: {
+					Name: input.shipper.name,
+					Address: toUpsAddress(input.origin),
+				},
+				PaymentInformation: {
+					ShipmentCharge: [
+						{ Type: "01", BillShipper: { AccountNumber: shipperNumber } },
+					],
+				},
+				Service: { Code: input.serviceCode },
+				Package: input.packages.map((pkg) => ({
+					Packaging: { Code: "02", Description: "Package" },
+					...toUpsMeasurements(pkg, upsUnitSystem(input.origin.countryCode)),
+				})),
+			},
+			LabelSpecification: {
+				LabelImageFormat: { Code: labelFormat },
+				// thermal printers take 4x6 stock; image formats use the UPS default
+				...(labelFormat === "ZPL" && {
+					LabelStockSize: { Height: "6", Width: "4" },
+				}),
+			},
+		},
+	};
+}
+
+export function fromUpsShipResponse(
+	results: UpsShipmentResults,
+	requestedFormat: LabelFormat,
+): ShipmentResult {
+	const packages = Array.isArray(results.PackageResults)
+		? results.PackageResults
+		: [results.PackageResults];
+
+	const labels: ShippingLabel[] = packages.flatMap((p) =>
+		p.ShippingLabel
+			? [
+					{
+						trackingNumber: p.TrackingNumber,
+						format: fromUpsLabelFormat(
+							p.ShippingLabel.ImageFormat.Code,
+							requestedFormat,
+						),
+						data: Buffer.from(p.ShippingLabel.GraphicImage, "base64"),
+					},
+				]
+			: [],
+	);
+
+	return {
+		carrier: "UPS",
+		shipmentId: results.ShipmentIdentificationNumber,
+		trackingNumbers: packages.map((p) => p.TrackingNumber),
+		totalCharge: fromUpsMoney(results.ShipmentCharges.TotalCharges),
+		labels,
+	};
+}
+
+/**
+ * Reports the format UPS actually rendered. A code outside the domain formats
+ * can only come from a format we never request, so it keeps the requested one.
+ */
+function fromUpsLabelFormat(code: string, requested: LabelFormat): LabelFormat {
+	const parsed = LabelFormatSchema.safeParse(code);
+	return parsed.success ? parsed.data : requested;
+}
@@ -0,0 +1,63 @@
+import {
+	AppError,
+	CarrierApiError,
+	ValidationError,
+} from "../../core/errors.js";
+import type { ICarrierOperation } from "../../core/ICarrierOperation.js";
+import type { ShipmentRequest, ShipmentResult } from "../../core/types.js";
+import type { HttpClient } from "../../infra/HttpClient.js";
+import { currentCorrelationId } from "../../infra/Telemetry.js";
+import {
+	fromUpsShipResponse,
+	isUpsLabelFormat,
+	toUpsShipRequest,
+	UPS_DEFAULT_LABEL_FORMAT,
+} from "./UpsShipMapper.js";
+import { UpsShipResponseSchema } from "./ups.types.js";
+
+export class UpsShipOperation
+	implements ICarrierOperation<ShipmentRequest, ShipmentResult>
+{
+	constructor(
+		private readonly http: HttpClient,
+		private readonly shipperNumber: string,
+	) {}
+
+	async execute(input: ShipmentRequest): Promise<ShipmentResult> {
+		const labelFormat = input.labelFormat ?? UPS_DEFAULT_LABEL_FORMAT;
+		if (!isUpsLabelFormat(labelFormat)) {
+			throw new ValidationError(
+				`UPS cannot print ${labelFormat} labels; request GIF, PNG or ZPL`,
+			);
+		}
+
+		const body = toUpsShipRequest(
+			input,
+			this.shipperNumber,
+			currentCorrelationId(),
+		);
+		const data = await this.createShipment(body);
+		return fromUpsShipResponse(
+			data.ShipmentResponse.ShipmentResults,
+			labelFormat,
+		);
+	}
+
+	private async createShipment(body: unknown) {
+		try {
+			const data = await this.http.request<unknown>({
+				method: "POST",
+				url: "/api/shipments/v2409/ship",
+				data: body,
+				// a retried POST could create and bill a second shipment
+				idempotent: false,
+			});
+			return UpsShipResponseSchema.parse(data);
+		} catch (error) {
+			if (error instanceof AppError) throw error;
+			throw new CarrierApiError("UPS shipment request failed", 0, undefined, {
+				cause: error instanceof Error ? error : undefined,
+			});
+		}
+	}
+}
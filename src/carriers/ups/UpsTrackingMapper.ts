@@ -0,0 +1,86 @@
+import type {
+	TrackingEvent,
+	TrackingLocation,
+	TrackingResult,
+} from "../../core/types.js";
+import {
+	UPS_ACTIVITY_CODE_STATUS,
+	UPS_ACTIVITY_STATUS,
+	type UpsTrackActivity,
+	type UpsTrackPackage,
+} from "./ups.types.js";
+
+export function fromUpsTrackPackage(pkg: UpsTrackPackage): TrackingResult {
+	// UPS lists activity newest first; the domain timeline is oldest first
+	const events = pkg.activity.map(toTrackingEvent).reverse();
+	const latest = events.at(-1);
+
+	const result: TrackingResult = {
+		carrier: "UPS",
+		trackingNumber: pkg.trackingNumber,
+		status: latest?.status ?? "label_created",
+		events,
+	};
+
+	const scheduled = pkg.deliveryDate?.find(
+		(d) => d.type === "SDD" || d.type === "RDD",
+	);
+	if (scheduled !== undefined && result.status !== "delivered") {
+		result.estimatedDeliveryDate = toIsoDate(scheduled.date);
+	}
+
+	return result;
+}
+
+function toTrackingEvent(activity: UpsTrackActivity): TrackingEvent {
+	const event: TrackingEvent = {
+		status:
+			(activity.status.code !== undefined
+				? UPS_ACTIVITY_CODE_STATUS[activity.status.code]
+				: undefined) ??
+			UPS_ACTIVITY_STATUS[activity.status.type] ??
+			"in_transit",
+		description: activity.status.description.trim(),
+		timestamp: toIsoTimestamp(activity),
+	};
+
+	const location = toTrackingLocation(activity);
+	if (location !== undefined) {
+		event.location = location;
+	}
+
+	return event;
+}
+
+function toTrackingLocation(
+	activity: UpsTrackActivity,
+): TrackingLocation | undefined {
+	const address = activity.location?.address;
+	if (address === undefined) return undefined;
+
+	const location: TrackingLocation = {};
+	if (address.city) location.city = address.city;
+	if (address.stateProvince) location.stateCode = address.stateProvince;
+	if (address.postalCode) location.postalCode = address.postalCode;
+	if (address.countryCode) location.countryCode = address.countryCode;
+	return Object.keys(location).length > 0 ? location : undefined;
+}
+
+function toIsoDate(date: string): string {
+	return `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}`;
+}
+
+function toIsoTimestamp(activity: UpsTrackActivity): string {
+	const { date, time, gmtDate, gmtTime, gmtOffset } = activity;
+	// local time means nothing without its offset, so fall back to UPS's GMT fields
+	if (
+		gmtOffset === undefined &&
+		gmtDate !== undefined &&
+		gmtTime !== undefined
+	) {
+		return `${toIsoDate(gmtDate)}T${gmtTime}Z`;
+	}
+	const clock = `${time.slice(0, 2)}:${time.slice(2, 4)}:${time.slice(4, 6)}`;
+	// the schema admits no activity that lacks both
+	return `${toIsoDate(date)}T${clock}${gmtOffset}`;
+}
@@ -0,0 +1,54 @@
+import { AppError, CarrierApiError } from "../../core/errors.js";
+import type { ICarrierOperation } from "../../core/ICarrierOperation.js";
+import type { TrackingRequest, TrackingResult } from "../../core/types.js";
+import type { HttpClient } from "../../infra/HttpClient.js";
+import { Telemetry } from "../../infra/Telemetry.js";
+import { upsTransactionId } from "./UpsMapper.js";
+import { fromUpsTrackPackage } from "./UpsTrackingMapper.js";
+import { UpsTrackResponseSchema } from "./ups.types.js";
+
+export class UpsTrackingOperation
+	implements ICarrierOperation<TrackingRequest, TrackingResult>
+{
+	constructor(
+		private readonly http: HttpClient,
+		private readonly telemetry = new Telemetry(),
+	) {}
+
+	async execute(input: TrackingRequest): Promise<TrackingResult> {
+		const data = await this.fetchTracking(input.trackingNumber);
+		const [shipment] = data.trackResponse.shipment;
+		const pkg = shipment?.package?.find(
+			(p) => p.trackingNumber === input.trackingNumber,
+		);
+		if (!pkg) {
+			const warning = shipment?.warnings?.[0];
+			throw new CarrierApiError(
+				warning?.message ?? "UPS returned no tracking details",
+				404,
+				warning?.code,
+			);
+		}
+		return fromUpsTrackPackage(pkg);
+	}
+
+	private async fetchTracking(trackingNumber: string) {
+		try {
+			const data = await this.http.request<unknown>({
+				method: "GET",
+				url: `/api/track/v1/details/${encodeURIComponent(trackingNumber)}`,
+				params: { locale: "en_US", returnSignature: "false" },
+				headers: {
+					transId: upsTransactionId(this.telemetry),
+					transactionSrc: "cybership",
+				},
+			});
+			return UpsTrackResponseSchema.parse(data);
+		} catch (error) {
+			if (error instanceof AppError) throw error;
+			throw new CarrierApiError("UPS tracking request failed", 0, undefined, {
+				cause: error instanceof Error ? error : undefined,
+			});
+		}
+	}
+}
@@ -0,0 +1,32 @@
+import type { VoidShipmentResult } from "../../core/types.js";
+import type { UpsVoidResponse } from "./ups.types.js";
+
+const VOIDED = "1";
+
+export function fromUpsVoidResponse(
+	shipmentId: string,
+	response: UpsVoidResponse["VoidShipmentResponse"],
+): VoidShipmentResult {
+	const packageResults = response.PackageLevelResult;
+	const packages =
+		packageResults === undefined
+			? []
+			: Array.isArray(packageResults)
+				? packageResults
+				: [packageResults];
+
+	return {
+		carrier: "UPS",
+		shipmentId,
+		voided: response.SummaryResult.Status.Code === VOIDED,
+		packages: packages.map((p) =>
+			p.Status.Code === VOIDED
+				? { trackingNumber: p.TrackingNumber, voided: true }
+				: {
+						trackingNumber: p.TrackingNumber,
+						voided: false,
+						reason: p.Status.Description,
+					},
+		),
+	};
+}
@@ -0,0 +1,74 @@
+import axios from "axios";
+import {
+	AppError,
+	CarrierApiError,
+	ShipmentInTransitError,
+} from "../../core/errors.js";
+import type { ICarrierOperation } from "../../core/ICarrierOperation.js";
+import type {
+	VoidShipmentRequest,
+	VoidShipmentResult,
+} from "../../core/types.js";
+import type { HttpClient } from "../../infra/HttpClient.js";
+import { fromUpsVoidResponse } from "./UpsVoidMapper.js";
+import {
+	UPS_VOID_IN_TRANSIT_CODES,
+	UpsErrorResponseSchema,
+	UpsVoidResponseSchema,
+} from "./ups.types.js";
+
+export class UpsVoidOperation
+	implements ICarrierOperation<VoidShipmentRequest, VoidShipmentResult>
+{
+	constructor(private readonly http: HttpClient) {}
+
+	async execute(input: VoidShipmentRequest): Promise<VoidShipmentResult> {
+		const data = await this.voidShipment(input);
+		return fromUpsVoidResponse(input.shipmentId, data.VoidShipmentResponse);
+	}
+
+	private async voidShipment(input: VoidShipmentRequest) {
+		const trackingNumbers = input.trackingNumbers;
+		try {
+			const data = await this.http.request<unknown>({
+				method: "DELETE",
+				url: `/api/shipments/v2409/void/cancel/${encodeURIComponent(input.shipmentId)}`,
+				...(trackingNumbers !== undefined && {
+					params: {
+						trackingnumber:
+							trackingNumbers.length === 1
+								? trackingNumbers[0]
+								: JSON.stringify(trackingNumbers),
+					},
+				}),
+			});
+			return UpsVoidResponseSchema.parse(data);
+		} catch (error) {
+			const inTransit = toInTransitError(input.shipmentId, error);
+			if (inTransit) throw inTransit;
+			if (error instanceof AppError) throw error;
+			throw new CarrierApiError("UPS void request failed", 0, undefined, {
+				cause: error instanceof Error ? error : undefined,
+			});
+		}
+	}
+}
+
+function toInTransitError(
+	shipmentId: string,
+	error: unknown,
+): ShipmentInTransitError | undefined {
+	if (!(error instanceof CarrierApiError) || !axios.isAxiosError(error.cause)) {
+		return undefined;
+	}
+	const parsed = UpsErrorResponseSchema.safeParse(error.cause.response?.data);
+	const refusal = parsed.success
+		? parsed.data.response.errors.find((e) =>
+				UPS_VOID_IN_TRANSIT_CODES.has(e.code),
+			)
+		: undefined;
+	if (!refusal) return undefined;
+	return new ShipmentInTransitError(refusal.message, shipmentId, {
+		cause: error,
+	});
+}
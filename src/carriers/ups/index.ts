@@ -1 +1,6 @@
+export { UpsAddressValidationOperation } from "./UpsAddressValidationOperation.js";
+export { UpsLandedCostOperation } from "./UpsLandedCostOperation.js";
 export { UpsRatingOperation } from "./UpsRatingOperation.js";
+export { UpsShipOperation } from "./UpsShipOperation.js";
+export { UpsTrackingOperation } from "./UpsTrackingOperation.js";
+export { UpsVoidOperation } from "./UpsVoidOperation.js";
@@ -1,15 +1,127 @@
-import type { Config } from "../../config.js";
-import { HttpClient } from "../../infra/HttpClient.js";
+import type { Config, UpsAccountConfig } from "../../config.js";
+import type { ICarrierOperation } from "../../core/ICarrierOperation.js";
+import { FileTokenStore } from "../../infra/TokenStore.js";
+import { AccountRoutedOperation } from "../../registry/accounts.js";
 import type { OperationRegistry } from "../../registry/OperationRegistry.js";
+import {
+	type CarrierDependencies,
+	carrierHttp,
+	carrierRegisterOptions,
+	type RegisteredCarrier,
+	resolveCarrierDependencies,
+} from "../CarrierDependencies.js";
+import { UpsAddressValidationOperation } from "./UpsAddressValidationOperation.js";
 import { UpsAuthClient } from "./UpsAuthClient.js";
+import { UpsLandedCostOperation } from "./UpsLandedCostOperation.js";
 import { UpsRatingOperation } from "./UpsRatingOperation.js";
+import { UpsShipOperation } from "./UpsShipOperation.js";
+import { UpsTrackingOperation } from "./UpsTrackingOperation.js";
+import { UpsVoidOperation } from "./UpsVoidOperation.js";
 
 export function registerUpsCarrier(
 	registry: OperationRegistry,
 	config: Config,
-): void {
-	const auth = new UpsAuthClient(config.ups);
-	const http = new HttpClient({ baseURL: config.ups.baseUrl, auth });
+	deps: CarrierDependencies = {},
+): RegisteredCarrier {
+	const shared = resolveCarrierDependencies(deps);
+	const { telemetry } = shared;
+	// a token file lets every worker process share OAuth tokens; entries are
+	// keyed by client ID, so accounts never see each other's tokens
+	const tokenStore =
+		config.ups.tokenFile !== undefined
+			? new FileTokenStore(config.ups.tokenFile)
+			: undefined;
 
-	registry.register("ups:rating", new UpsRatingOperation(http));
+	function buildAccount(credentials: UpsAccountConfig) {
+		const auth = new UpsAuthClient(
+			{ ...config.ups, ...credentials },
+			{ telemetry, ...(tokenStore && { tokenStore }) },
+		);
+		const http = carrierHttp(shared, "ups", config.ups.baseUrl, auth);
+		const rating = new UpsRatingOperation(
+			http,
+			"Shop",
+			credentials.accountNumber,
+		);
+		return {
+			auth,
+			rating,
+			landedCost: new UpsLandedCostOperation(http, rating, telemetry),
+			void: new UpsVoidOperation(http),
+			tracking: new UpsTrackingOperation(http, telemetry),
+			addressValidation: new UpsAddressValidationOperation(http),
+			// shipments are billed to the shipper account, so labels need one configured
+			label:
+				credentials.accountNumber !== undefined
+					? new UpsShipOperation(http, credentials.accountNumber)
+					: undefined,
+		};
+	}
+
+	const defaultAccount = buildAccount(config.ups);
+	const accounts = new Map(
+		Object.entries(config.ups.accounts ?? {}).map(([id, credentials]) => [
+			id,
+			buildAccount(credentials),
+		]),
+	);
+
+	function route<I, O>(
+		key: string,
+		pick: (
+			account: ReturnType<typeof buildAccount>,
+		) => ICarrierOperation<I, O> | undefined,
+	) {
+		const byAccount = new Map<string, ICarrierOperation<I, O>>();
+		for (const [id, operations] of accounts) {
+			const operation = pick(operations);
+			if (operation) byAccount.set(id, operation);
+		}
+		return new AccountRoutedOperation(key, pick(defaultAccount), byAccount);
+	}
+
+	const options = carrierRegisterOptions(telemetry);
+
+	registry.register(
+		"ups:rating",
+		route("ups:rating", (a) => a.rating),
+		options,
+	);
+	registry.register(
+		"ups:landed-cost",
+		route("ups:landed-cost", (a) => a.landedCost),
+		options,
+	);
+	registry.register(
+		"ups:void",
+		route("ups:void", (a) => a.void),
+		options,
+	);
+	registry.register(
+		"ups:tracking",
+		route("ups:tracking", (a) => a.tracking),
+		options,
+	);
+	registry.register(
+		"ups:address-validation",
+		route("ups:address-validation", (a) => a.addressValidation),
+		options,
+	);
+	if ([defaultAccount, ...accounts.values()].some((a) => a.label)) {
+		registry.register(
+			"ups:label",
+			route("ups:label", (a) => a.label),
+			options,
+		);
+	}
+
+	return {
+		carrier: "ups",
+		auth: defaultAccount.auth,
+		...(accounts.size > 0 && {
+			accounts: new Map(
+				[...accounts].map(([id, operations]) => [id, operations.auth]),
+			),
+		}),
+	};
 }
@@ -1,13 +1,29 @@
 import { z } from "zod";
+import type {
+	AddressClassification,
+	TrackingStatus,
+} from "../../core/types.js";
+
+export const UpsErrorResponseSchema = z.object({
+	response: z.object({
+		errors: z.array(z.object({ code: z.string(), message: z.string() })),
+	}),
+});
 
 // Request schemas
 
+const UpsMonetaryValueSchema = z.object({
+	CurrencyCode: z.string(),
+	MonetaryValue: z.string(),
+});
+
 const UpsAddressSchema = z.object({
 	AddressLine: z.array(z.string()),
 	City: z.string(),
-	StateProvinceCode: z.string(),
+	StateProvinceCode: z.string().optional(),
 	PostalCode: z.string(),
 	CountryCode: z.string(),
+	ResidentialAddressIndicator: z.string().optional(),
 });
 
 const UpsServiceSchema = z.object({
@@ -30,14 +46,40 @@ const UpsPackageSchema = z.object({
 		UnitOfMeasurement: z.object({ Code: z.string() }),
 		Weight: z.string(),
 	}),
+	AdditionalHandlingIndicator: z.string().optional(),
+	PackageServiceOptions: z
+		.object({
+			DeclaredValue: UpsMonetaryValueSchema.optional(),
+			// DCISType 2 = signature required, 3 = adult signature required
+			DeliveryConfirmation: z.object({ DCISType: z.string() }).optional(),
+			COD: z
+				.object({
+					CODFundsCode: z.string(),
+					CODAmount: UpsMonetaryValueSchema,
+				})
+				.optional(),
+			DryIce: z
+				.object({
+					RegulationSet: z.enum(["CFR", "IATA"]),
+					DryIceWeight: z.object({
+						UnitOfMeasurement: z.object({ Code: z.string() }),
+						Weight: z.string(),
+					}),
+				})
+				.optional(),
+		})
+		.optional(),
+});
+
+// Echoed back by UPS in the response; carries our correlation ID
+const UpsTransactionReferenceSchema = z.object({
+	CustomerContext: z.string().optional(),
 });
 
 export const UpsRateRequestSchema = z.object({
 	RateRequest: z.object({
 		Request: z.object({
-			TransactionReference: z
-				.object({ CustomerContext: z.string().optional() })
-				.optional(),
+			TransactionReference: UpsTransactionReferenceSchema.optional(),
 		}),
 		Shipment: z.object({
 			Shipper: z.object({
@@ -47,7 +89,45 @@ export const UpsRateRequestSchema = z.object({
 			}),
 			ShipTo: z.object({ Name: z.string(), Address: UpsAddressSchema }),
 			ShipFrom: z.object({ Name: z.string(), Address: UpsAddressSchema }),
+			PaymentDetails: z
+				.object({
+					ShipmentCharge: z.array(
+						z.object({
+							Type: z.string(),
+							BillShipper: z.object({ AccountNumber: z.string() }),
+						}),
+					),
+				})
+				.optional(),
+			ShipmentRatingOptions: z
+				.object({ NegotiatedRatesIndicator: z.string().optional() })
+				.optional(),
+			ShipmentServiceOptions: z
+				.object({
+					SaturdayDeliveryIndicator: z.string().optional(),
+					// international signatures: DCISType 1 = required, 2 = adult
+					DeliveryConfirmation: z.object({ DCISType: z.string() }).optional(),
+				})
+				.optional(),
 			Service: UpsServiceSchema.optional(),
+			// customs value, which UPS needs to rate many international lanes
+			InvoiceLineTotal: UpsMonetaryValueSchema.optional(),
+			// required by the time-in-transit request options
+			DeliveryTimeInformation: z
+				.object({
+					PackageBillType: z.string(),
+					Pickup: z
+						.object({ Date: z.string(), Time: z.string().optional() })
+						.optional(),
+				})
+				.optional(),
+			// required with time in transit on international lanes
+			ShipmentTotalWeight: z
+				.object({
+					UnitOfMeasurement: z.object({ Code: z.enum(["LBS", "KGS"]) }),
+					Weight: z.string(),
+				})
+				.optional(),
 			NumOfPieces: z.string().optional(),
 			Package: z.union([UpsPackageSchema, z.array(UpsPackageSchema)]),
 		}),
@@ -58,28 +138,49 @@ export type UpsRateRequest = z.infer<typeof UpsRateRequestSchema>;
 
 // Response schemas
 
-const UpsMonetaryValueSchema = z.object({
-	CurrencyCode: z.string(),
-	MonetaryValue: z.string(),
+/** Itemized charge code UPS uses for the fuel surcharge. */
+export const UPS_FUEL_SURCHARGE_CODE = "375";
+
+const UpsItemizedChargeSchema = UpsMonetaryValueSchema.extend({
+	Code: z.string(),
+	Description: z.string().optional(),
+	SubType: z.string().optional(),
 });
 
 const UpsRatedShipmentSchema = z.object({
 	Service: UpsServiceSchema,
+	BaseServiceCharge: UpsMonetaryValueSchema.optional(),
+	TransportationCharges: UpsMonetaryValueSchema.optional(),
+	ServiceOptionsCharges: UpsMonetaryValueSchema.optional(),
+	ItemizedCharges: z.array(UpsItemizedChargeSchema).optional(),
 	TotalCharges: UpsMonetaryValueSchema,
+	NegotiatedRateCharges: z
+		.object({ TotalCharge: UpsMonetaryValueSchema })
+		.optional(),
 	GuaranteedDelivery: z
 		.object({
 			BusinessDaysInTransit: z.string().optional(),
 			ScheduledDeliveryDate: z.string().optional(),
+			/** e.g. "10:30 A.M." or "End of Day". */
+			DeliveryByTime: z.string().optional(),
 		})
 		.optional(),
 	TimeInTransit: z
 		.object({
 			ServiceSummary: z
 				.object({
+					/** Present, usually empty, when the service is guaranteed. */
+					GuaranteedIndicator: z.string().optional(),
 					EstimatedArrival: z
 						.object({
 							BusinessDaysInTransit: z.string().optional(),
-							Arrival: z.object({ Date: z.string().optional() }).optional(),
+							/** Date as YYYYMMDD, time as HHMMSS. */
+							Arrival: z
+								.object({
+									Date: z.string().optional(),
+									Time: z.string().optional(),
+								})
+								.optional(),
 						})
 						.optional(),
 				})
@@ -102,3 +203,340 @@ export const UpsRateResponseSchema = z.object({
 
 export type UpsRateResponse = z.infer<typeof UpsRateResponseSchema>;
 export type UpsRatedShipment = z.infer<typeof UpsRatedShipmentSchema>;
+export type UpsMonetaryValue = z.infer<typeof UpsMonetaryValueSchema>;
+
+// Shipping request schemas
+
+const UpsPhoneSchema = z.object({ Number: z.string() });
+
+const UpsShipPackageSchema = UpsPackageSchema.omit({
+	PackagingType: true,
+}).extend({
+	Packaging: z.object({
+		Code: z.string(),
+		Description: z.string().optional(),
+	}),
+});
+
+export const UpsShipRequestSchema = z.object({
+	ShipmentRequest: z.object({
+		Request: z.object({
+			RequestOption: z.string(),
+			TransactionReference: UpsTransactionReferenceSchema.optional(),
+		}),
+		Shipment: z.object({
+			Description: z.string().optional(),
+			Shipper: z.object({
+				Name: z.string(),
+				Phone: UpsPhoneSchema.optional(),
+				ShipperNumber: z.string(),
+				Address: UpsAddressSchema,
+			}),
+			ShipTo: z.object({
+				Name: z.string(),
+				Phone: UpsPhoneSchema.optional(),
+				EMailAddress: z.string().optional(),
+				Address: UpsAddressSchema,
+			}),
+			ShipFrom: z.object({ Name: z.string(), Address: UpsAddressSchema }),
+			PaymentInformation: z.object({
+				ShipmentCharge: z.array(
+					z.object({
+						Type: z.string(),
+						BillShipper: z.object({ AccountNumber: z.string() }),
+					}),
+				),
+			}),
+			Service: UpsServiceSchema,
+			Package: z.array(UpsShipPackageSchema),
+		}),
+		LabelSpecification: z.object({
+			LabelImageFormat: z.object({ Code: z.string() }),
+			LabelStockSize: z
+				.object({ Height: z.string(), Width: z.string() })
+				.optional(),
+		}),
+	}),
+});
+
+export type UpsShipRequest = z.infer<typeof UpsShipRequestSchema>;
+
+// Shipping response schemas
+
+const UpsPackageResultSchema = z.object({
+	TrackingNumber: z.string(),
+	ShippingLabel: z
+		.object({
+			ImageFormat: z.object({ Code: z.string() }),
+			GraphicImage: z.string(),
+		})
+		.optional(),
+});
+
+export const UpsShipResponseSchema = z.object({
+	ShipmentResponse: z.object({
+		Response: z.object({
+			ResponseStatus: z.object({
+				Code: z.string(),
+				Description: z.string(),
+			}),
+		}),
+		ShipmentResults: z.object({
+			ShipmentCharges: z.object({ TotalCharges: UpsMonetaryValueSchema }),
+			ShipmentIdentificationNumber: z.string(),
+			// UPS returns a bare object instead of an array for single-package shipments
+			PackageResults: z.union([
+				UpsPackageResultSchema,
+				z.array(UpsPackageResultSchema),
+			]),
+		}),
+	}),
+});
+
+export type UpsShipResponse = z.infer<typeof UpsShipResponseSchema>;
+export type UpsShipmentResults =
+	UpsShipResponse["ShipmentResponse"]["ShipmentResults"];
+
+// Void response schemas
+
+/** Error codes UPS returns when a package has already been picked up or is moving. */
+export const UPS_VOID_IN_TRANSIT_CODES = new Set(["190117", "190118"]);
+
+const UpsVoidStatusSchema = z.object({
+	Code: z.string(),
+	Description: z.string(),
+});
+
+const UpsPackageLevelResultSchema = z.object({
+	TrackingNumber: z.string(),
+	Status: UpsVoidStatusSchema,
+});
+
+export const UpsVoidResponseSchema = z.object({
+	VoidShipmentResponse: z.object({
+		Response: z.object({
+			ResponseStatus: z.object({
+				Code: z.string(),
+				Description: z.string(),
+			}),
+		}),
+		SummaryResult: z.object({ Status: UpsVoidStatusSchema }),
+		PackageLevelResult: z
+			.union([
+				UpsPackageLevelResultSchema,
+				z.array(UpsPackageLevelResultSchema),
+			])
+			.optional(),
+	}),
+});
+
+export type UpsVoidResponse = z.infer<typeof UpsVoidResponseSchema>;
+
+// Tracking response schemas
+
+/** Maps UPS activity status types onto the carrier-agnostic tracking status. */
+export const UPS_ACTIVITY_STATUS: Record<string, TrackingStatus> = {
+	M: "label_created",
+	MV: "label_created",
+	P: "in_transit",
+	I: "in_transit",
+	W: "in_transit",
+	DO: "in_transit",
+	DD: "in_transit",
+	D: "delivered",
+	X: "exception",
+	NA: "exception",
+	RS: "returned",
+};
+
+/** Activity codes that refine the status type, e.g. out for delivery is reported as type "I". */
+export const UPS_ACTIVITY_CODE_STATUS: Record<string, TrackingStatus> = {
+	OT: "out_for_delivery",
+	OF: "out_for_delivery",
+};
+
+const UpsTrackActivitySchema = z
+	.object({
+		location: z
+			.object({
+				address: z
+					.object({
+						city: z.string().optional(),
+						stateProvince: z.string().optional(),
+						postalCode: z.string().optional(),
+						countryCode: z.string().optional(),
+					})
+					.optional(),
+			})
+			.optional(),
+		status: z.object({
+			type: z.string(),
+			description: z.string(),
+			code: z.string().optional(),
+		}),
+		date: z.string().regex(/^\d{8}$/),
+		time: z.string().regex(/^\d{6}$/),
+		gmtDate: z
+			.string()
+			.regex(/^\d{8}$/)
+			.optional(),
+		gmtTime: z
+			.string()
+			.regex(/^\d{2}:\d{2}:\d{2}$/)
+			.optional(),
+		gmtOffset: z.string().optional(),
+	})
+	.refine(
+		(activity) =>
+			activity.gmtOffset !== undefined ||
+			(activity.gmtDate !== undefined && activity.gmtTime !== undefined),
+		{ message: "activity has neither a GMT offset nor a GMT date and time" },
+	);
+
+const UpsTrackPackageSchema = z.object({
+	trackingNumber: z.string(),
+	deliveryDate: z
+		.array(z.object({ type: z.string(), date: z.string() }))
+		.optional(),
+	activity: z.array(UpsTrackActivitySchema),
+});
+
+export const UpsTrackResponseSchema = z.object({
+	trackResponse: z.object({
+		shipment: z.array(
+			z.object({
+				inquiryNumber: z.string().optional(),
+				package: z.array(UpsTrackPackageSchema).optional(),
+				warnings: z
+					.array(z.object({ code: z.string(), message: z.string() }))
+					.optional(),
+			}),
+		),
+	}),
+});
+
+export type UpsTrackResponse = z.infer<typeof UpsTrackResponseSchema>;
+export type UpsTrackPackage = z.infer<typeof UpsTrackPackageSchema>;
+export type UpsTrackActivity = z.infer<typeof UpsTrackActivitySchema>;
+
+// Address validation schemas
+
+const UpsAddressKeyFormatSchema = z.object({
+	ConsigneeName: z.string().optional(),
+	AddressLine: z.union([z.string(), z.array(z.string())]),
+	PoliticalDivision2: z.string(),
+	PoliticalDivision1: z.string().optional(),
+	PostcodePrimaryLow: z.string(),
+	PostcodeExtendedLow: z.string().optional(),
+	CountryCode: z.string(),
+});
+
+export const UpsXavRequestSchema = z.object({
+	XAVRequest: z.object({
+		Request: z
+			.object({
+				TransactionReference: UpsTransactionReferenceSchema.optional(),
+			})
+			.optional(),
+		AddressKeyFormat: UpsAddressKeyFormatSchema,
+	}),
+});
+
+export type UpsXavRequest = z.infer<typeof UpsXavRequestSchema>;
+
+/** XAV classification codes: 0 unknown, 1 commercial, 2 residential. */
+export const UPS_ADDRESS_CLASSIFICATION: Record<string, AddressClassification> =
+	{
+		"0": "unknown",
+		"1": "commercial",
+		"2": "residential",
+	};
+
+const UpsAddressClassificationSchema = z.object({
+	Code: z.string(),
+	Description: z.string().optional(),
+});
+
+const UpsXavCandidateSchema = z.object({
+	AddressClassification: UpsAddressClassificationSchema.optional(),
+	AddressKeyFormat: UpsAddressKeyFormatSchema,
+});
+
+export const UpsXavResponseSchema = z.object({
+	XAVResponse: z.object({
+		Response: z.object({
+			ResponseStatus: z.object({
+				Code: z.string(),
+				Description: z.string(),
+			}),
+		}),
+		// indicators are empty strings whose presence carries the meaning
+		ValidAddressIndicator: z.string().optional(),
+		AmbiguousAddressIndicator: z.string().optional(),
+		NoCandidatesIndicator: z.string().optional(),
+		AddressClassification: UpsAddressClassificationSchema.optional(),
+		Candidate: z
+			.union([UpsXavCandidateSchema, z.array(UpsXavCandidateSchema)])
+			.optional(),
+	}),
+});
+
+export type UpsXavResponse = z.infer<typeof UpsXavResponseSchema>;
+export type UpsXavCandidate = z.infer<typeof UpsXavCandidateSchema>;
+
+// Landed cost schemas
+
+export const UpsLandedCostRequestSchema = z.object({
+	/** Currency the duties and taxes are quoted in. */
+	currencyCode: z.string(),
+	transID: z.string().max(32),
+	allowPartialLandedCostResult: z.boolean(),
+	alversion: z.number(),
+	shipment: z.object({
+		id: z.string(),
+		importCountryCode: z.string(),
+		importProvince: z.string().optional(),
+		exportCountryCode: z.string(),
+		shipDate: z.string().optional(),
+		transModes: z.enum(["INT_AIR", "INT_GROUND"]),
+		shipmentType: z.string(),
+		shipmentItems: z.array(
+			z.object({
+				commodityId: z.string(),
+				description: z.string(),
+				hsCode: z.string(),
+				originCountryCode: z.string(),
+				priceEach: z.string(),
+				commodityCurrencyCode: z.string(),
+				quantity: z.number(),
+				UOM: z.string(),
+			}),
+		),
+	}),
+});
+
+export type UpsLandedCostRequest = z.infer<typeof UpsLandedCostRequestSchema>;
+
+const UpsLandedCostItemSchema = z.object({
+	commodityId: z.string(),
+	hsCode: z.string().optional(),
+	commodityDuty: z.number(),
+	/** Duty plus every tax and fee on the item. */
+	totalCommodityDutyAndTax: z.number(),
+});
+
+export const UpsLandedCostResponseSchema = z.object({
+	shipment: z.object({
+		currencyCode: z.string(),
+		importCountryCode: z.string(),
+		totalDuties: z.number(),
+		totalDutyAndTax: z.number(),
+		totalBrokerageFees: z.number(),
+		grandTotal: z.number(),
+		shipmentItems: z.array(UpsLandedCostItemSchema),
+	}),
+});
+
+export type UpsLandedCostShipment = z.infer<
+	typeof UpsLandedCostResponseSchema
+>["shipment"];
@@ -0,0 +1,101 @@
+import axios from "axios";
+import { z } from "zod";
+import type { Config } from "../../config.js";
+import {
+	AuthenticationError,
+	CarrierApiError,
+	RateLimitError,
+} from "../../core/errors.js";
+import type { ICarrierAuth } from "../../core/ICarrierAuth.js";
+import { parseRetryAfter } from "../../infra/retry.js";
+
+const UspsErrorResponseSchema = z.object({
+	error: z.object({ code: z.string().optional(), message: z.string() }),
+});
+
+const TokenResponseSchema = z.object({
+	access_token: z.string(),
+	token_type: z.string(),
+	expires_in: z.coerce.number().positive(),
+	status: z.string().optional(),
+});
+
+const EXPIRY_BUFFER_S = 60;
+
+export class UspsAuthClient implements ICarrierAuth {
+	private readonly config: NonNullable<Config["usps"]>;
+	private cachedToken: string | null = null;
+	private expiresAt = 0;
+
+	constructor(config: NonNullable<Config["usps"]>) {
+		this.config = config;
+	}
+
+	async accessToken(): Promise<string> {
+		if (this.cachedToken !== null && Date.now() < this.expiresAt) {
+			return this.cachedToken;
+		}
+		return this.authenticate();
+	}
+
+	clearToken(): void {
+		this.cachedToken = null;
+		this.expiresAt = 0;
+	}
+
+	private async authenticate(): Promise<string> {
+		const body = new URLSearchParams({
+			grant_type: "client_credentials",
+			client_id: this.config.clientId,
+			client_secret: this.config.clientSecret,
+		}).toString();
+
+		try {
+			const response = await axios.post(
+				`${this.config.baseUrl}/oauth2/v3/token`,
+				body,
+				{
+					headers: { "Content-Type": "application/x-www-form-urlencoded" },
+				},
+			);
+
+			const parsed = TokenResponseSchema.parse(response.data);
+			this.cachedToken = parsed.access_token;
+			this.expiresAt =
+				Date.now() + (parsed.expires_in - EXPIRY_BUFFER_S) * 1000;
+			return parsed.access_token;
+		} catch (error) {
+			throw this.toStructuredError(error);
+		}
+	}
+
+	private toStructuredError(error: unknown): Error {
+		if (!axios.isAxiosError(error) || !error.response) {
+			return new CarrierApiError(
+				`USPS OAuth request failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+				0,
+				undefined,
+				{ cause: error instanceof Error ? error : undefined },
+			);
+		}
+
+		const { status, data } = error.response;
+		const parsed = UspsErrorResponseSchema.safeParse(data);
+		const message = parsed.success
+			? parsed.data.error.message
+			: `USPS OAuth request failed (HTTP ${status})`;
+		const carrierCode = parsed.success ? parsed.data.error.code : undefined;
+
+		if (status === 401 || status === 403) {
+			return new AuthenticationError(message, { cause: error });
+		}
+		if (status === 429) {
+			return new RateLimitError(
+				message,
+				parseRetryAfter(error.response.headers?.["retry-after"]),
+				{ cause: error },
+			);
+		}
+		return new CarrierApiError(message, status, carrierCode, { cause: error });
+	}
+}
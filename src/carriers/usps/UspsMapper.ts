@@ -0,0 +1,169 @@
+import { addMoney, toMoney } from "../../core/money.js";
+import type {
+	Charge,
+	Package,
+	RateQuote,
+	RateRequest,
+} from "../../core/types.js";
+import {
+	billableWeight,
+	type DimWeightRules,
+	toImperial,
+} from "../../core/units.js";
+import {
+	USPS_MAIL_CLASSES,
+	type UspsRateOption,
+	type UspsRateRequest,
+} from "./usps.types.js";
+
+// USPS domestic prices are always quoted in dollars
+const USPS_CURRENCY = "USD";
+
+// dimensional weight only applies to parcels over one cubic foot
+const USPS_DIM_WEIGHT_RULES: DimWeightRules = {
+	imperialDivisor: 166,
+	metricDivisor: 6000,
+	minCubicInches: 1728,
+};
+
+const MAIL_CLASS_NAMES: Record<string, string> = {
+	USPS_GROUND_ADVANTAGE: "USPS Ground Advantage",
+	PRIORITY_MAIL: "Priority Mail",
+	PRIORITY_MAIL_EXPRESS: "Priority Mail Express",
+};
+
+// Rate indicators for flat-rate packaging; anything else is priced by weight and zone
+const FLAT_RATE_NAMES: Record<string, string> = {
+	FE: "Flat Rate Envelope",
+	FA: "Legal Flat Rate Envelope",
+	FP: "Padded Flat Rate Envelope",
+	FS: "Small Flat Rate Box",
+	FB: "Medium Flat Rate Box",
+	PL: "Large Flat Rate Box",
+	E4: "Flat Rate Envelope",
+	E6: "Legal Flat Rate Envelope",
+};
+
+/** USPS prices one piece per call, so a multi-package request becomes one request per package. */
+export function toUspsRequests(input: RateRequest): UspsRateRequest[] {
+	return input.packages.map((pkg) => toUspsRequest(input, pkg));
+}
+
+/**
+ * Merges per-package rate options into one quote per service. A service is only
+ * quoted when USPS offered it for every package, and each package counts its
+ * cheapest option for that service once.
+ */
+export function fromUspsResponses(
+	perPackage: UspsRateOption[][],
+	input: RateRequest,
+): RateQuote[] {
+	const billable = billableWeight(
+		input.packages,
+		"imperial",
+		USPS_DIM_WEIGHT_RULES,
+	);
+	const totals = new Map<string, { quote: RateQuote; pieces: number }>();
+
+	for (const options of perPackage) {
+		for (const quote of cheapestPerService(options.flatMap(toQuote))) {
+			const existing = totals.get(quote.serviceCode);
+			if (existing) {
+				existing.quote.totalCharge = addMoney(
+					existing.quote.totalCharge,
+					quote.totalCharge,
+				);
+				existing.quote.charges = mergeCharges(
+					existing.quote.charges,
+					quote.charges,
+				);
+				existing.pieces += 1;
+			} else {
+				totals.set(quote.serviceCode, { quote, pieces: 1 });
+			}
+		}
+	}
+
+	return [...totals.values()]
+		.filter((t) => t.pieces === perPackage.length)
+		.map((t) => ({ ...t.quote, billableWeight: billable }));
+}
+
+/**
+ * USPS can offer one mail class several times for a package (say SP and DR
+ * price types), which would otherwise all land on the same service code.
+ */
+function cheapestPerService(quotes: RateQuote[]): RateQuote[] {
+	const cheapest = new Map<string, RateQuote>();
+	for (const quote of quotes) {
+		const current = cheapest.get(quote.serviceCode);
+		if (!current || quote.totalCharge.amount < current.totalCharge.amount) {
+			cheapest.set(quote.serviceCode, quote);
+		}
+	}
+	return [...cheapest.values()];
+}
+
+/** USPS prices in pounds and inches only, so metric packages are converted. */
+function toUspsRequest(input: RateRequest, pkg: Package): UspsRateRequest {
+	const imperial = toImperial(pkg);
+	return {
+		originZIPCode: input.origin.postalCode.slice(0, 5),
+		destinationZIPCode: input.destination.postalCode.slice(0, 5),
+		weight: imperial.weightLbs,
+		length: imperial.lengthIn,
+		width: imperial.widthIn,
+		height: imperial.heightIn,
+		mailClasses: [...USPS_MAIL_CLASSES],
+		priceType: "COMMERCIAL",
+	};
+}
+
+function toQuote(option: UspsRateOption): RateQuote[] {
+	const [rate] = option.rates;
+	if (!rate) return [];
+
+	const className = MAIL_CLASS_NAMES[rate.mailClass] ?? rate.mailClass;
+	const flatRateName = FLAT_RATE_NAMES[rate.rateIndicator];
+
+	return [
+		{
+			carrier: "USPS",
+			serviceCode: flatRateName
+				? `${rate.mailClass}:${rate.rateIndicator}`
+				: rate.mailClass,
+			serviceName: flatRateName ? `${className} ${flatRateName}` : className,
+			totalCharge: toMoney(option.totalBasePrice, USPS_CURRENCY),
+			charges: [
+				{
+					type: "base",
+					description: "Postage",
+					amount: toMoney(rate.price, USPS_CURRENCY),
+				},
+				...(rate.fees ?? []).map(
+					(fee): Charge => ({
+						type: "surcharge",
+						description: fee.name,
+						amount: toMoney(fee.price, USPS_CURRENCY),
+					}),
+				),
+			],
+		},
+	];
+}
+
+/** Sums charge lines that share a type and description. */
+function mergeCharges(a: Charge[], b: Charge[]): Charge[] {
+	const merged = a.map((c) => ({ ...c }));
+	for (const charge of b) {
+		const match = merged.find(
+			(c) => c.type === charge.type && c.description === charge.description,
+		);
+		if (match) {
+			match.amount = addMoney(match.amount, charge.amount);
+		} else {
+			merged.push({ ...charge });
+		}
+	}
+	return merged;
+}
@@ -0,0 +1,58 @@
+import {
+	type Accessorial,
+	assertAccessorialsSupported,
+} from "../../core/accessorials.js";
+import {
+	AppError,
+	CarrierApiError,
+	ValidationError,
+} from "../../core/errors.js";
+import type { ICarrierOperation } from "../../core/ICarrierOperation.js";
+import type { RateQuote, RateRequest } from "../../core/types.js";
+import type { HttpClient } from "../../infra/HttpClient.js";
+import { fromUspsResponses, toUspsRequests } from "./UspsMapper.js";
+import { type UspsRateRequest, UspsRateResponseSchema } from "./usps.types.js";
+
+// no accessorials are mapped to USPS yet, so any of them is rejected
+const SUPPORTED_ACCESSORIALS: ReadonlySet<Accessorial> = new Set();
+
+export class UspsRatingOperation
+	implements ICarrierOperation<RateRequest, RateQuote[]>
+{
+	constructor(private readonly http: HttpClient) {}
+
+	async execute(input: RateRequest): Promise<RateQuote[]> {
+		assertAccessorialsSupported("USPS", input, SUPPORTED_ACCESSORIALS);
+		if (
+			input.origin.countryCode !== "US" ||
+			input.destination.countryCode !== "US"
+		) {
+			throw new ValidationError("USPS rating only supports domestic US lanes");
+		}
+
+		const responses = await Promise.all(
+			toUspsRequests(input).map((body) => this.fetchRates(body)),
+		);
+		return fromUspsResponses(
+			responses.map((r) => r.rateOptions),
+			input,
+		);
+	}
+
+	private async fetchRates(body: UspsRateRequest) {
+		try {
+			const data = await this.http.request<unknown>({
+				method: "POST",
+				url: "/prices/v3/base-rates-list/search",
+				data: body,
+				idempotent: true,
+			});
+			return UspsRateResponseSchema.parse(data);
+		} catch (error) {
+			if (error instanceof AppError) throw error;
+			throw new CarrierApiError("USPS rating request failed", 0, undefined, {
+				cause: error instanceof Error ? error : undefined,
+			});
+		}
+	}
+}
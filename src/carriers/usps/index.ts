@@ -0,0 +1 @@
+export { UspsRatingOperation } from "./UspsRatingOperation.js";
@@ -0,0 +1,33 @@
+import type { Config } from "../../config.js";
+import { AccountRoutedOperation } from "../../registry/accounts.js";
+import type { OperationRegistry } from "../../registry/OperationRegistry.js";
+import {
+	type CarrierDependencies,
+	carrierHttp,
+	carrierRegisterOptions,
+	type RegisteredCarrier,
+	resolveCarrierDependencies,
+} from "../CarrierDependencies.js";
+import { UspsAuthClient } from "./UspsAuthClient.js";
+import { UspsRatingOperation } from "./UspsRatingOperation.js";
+
+/** Registers USPS operations. A no-op when the optional `usps` config section is absent. */
+export function registerUspsCarrier(
+	registry: OperationRegistry,
+	config: Config,
+	deps: CarrierDependencies = {},
+): RegisteredCarrier | undefined {
+	if (!config.usps) return undefined;
+
+	const shared = resolveCarrierDependencies(deps);
+	const auth = new UspsAuthClient(config.usps);
+	const http = carrierHttp(shared, "usps", config.usps.baseUrl, auth);
+
+	registry.register(
+		"usps:rating",
+		new AccountRoutedOperation("usps:rating", new UspsRatingOperation(http)),
+		carrierRegisterOptions(shared.telemetry),
+	);
+
+	return { carrier: "usps", auth };
+}
@@ -0,0 +1,57 @@
+import { z } from "zod";
+
+export const USPS_MAIL_CLASSES = [
+	"USPS_GROUND_ADVANTAGE",
+	"PRIORITY_MAIL",
+	"PRIORITY_MAIL_EXPRESS",
+] as const;
+
+export type UspsMailClass = (typeof USPS_MAIL_CLASSES)[number];
+
+// Request schemas
+
+export const UspsRateRequestSchema = z.object({
+	originZIPCode: z.string().length(5),
+	destinationZIPCode: z.string().length(5),
+	weight: z.number(),
+	length: z.number(),
+	width: z.number(),
+	height: z.number(),
+	mailClasses: z.array(z.enum(USPS_MAIL_CLASSES)),
+	priceType: z.enum(["RETAIL", "COMMERCIAL"]),
+});
+
+export type UspsRateRequest = z.infer<typeof UspsRateRequestSchema>;
+
+// Response schemas
+
+const UspsRateSchema = z.object({
+	SKU: z.string().optional(),
+	description: z.string().optional(),
+	price: z.number(),
+	fees: z
+		.array(
+			z.object({
+				name: z.string(),
+				SKU: z.string().optional(),
+				price: z.number(),
+			}),
+		)
+		.optional(),
+	mailClass: z.string(),
+	productName: z.string().optional(),
+	rateIndicator: z.string(),
+	zone: z.string().optional(),
+});
+
+const UspsRateOptionSchema = z.object({
+	totalBasePrice: z.number(),
+	rates: z.array(UspsRateSchema).min(1),
+});
+
+export const UspsRateResponseSchema = z.object({
+	rateOptions: z.array(UspsRateOptionSchema),
+});
+
+export type UspsRateResponse = z.infer<typeof UspsRateResponseSchema>;
+export type UspsRateOption = z.infer<typeof UspsRateOptionSchema>;
@@ -0,0 +1,67 @@
+import { AppError } from "../core/errors.js";
+import type { Address, Package } from "../core/types.js";
+
+/** The command line itself is wrong: unknown command, flag or flag value. */
+export class UsageError extends AppError {
+	constructor(message: string) {
+		super("USAGE_ERROR", message);
+	}
+}
+
+const NUMBER = String.raw`(\d+(?:\.\d+)?)`;
+const PACKAGE = new RegExp(
+	`^${NUMBER}(lb|kg):${NUMBER}x${NUMBER}x${NUMBER}(in|cm)$`,
+);
+
+/**
+ * Parses `"<street>, [<street 2>,] <city>, <state>, <postal code>, <country>"`,
+ * e.g. `"123 Main St, New York, NY, 10001, US"`. The state may be left empty
+ * for countries without one: `"10 Rue de Rivoli, Paris, , 75001, FR"`.
+ */
+export function parseAddress(flag: string, value: string): Address {
+	const parts = value.split(",").map((part) => part.trim());
+	if (parts.length !== 5 && parts.length !== 6) {
+		throw new UsageError(
+			`--${flag} must be "<street>, <city>, <state>, <postal code>, <country>"`,
+		);
+	}
+	const [line1, ...rest] = parts as [string, ...string[]];
+	const line2 = parts.length === 6 ? rest.shift() : undefined;
+	const [city = "", stateCode = "", postalCode = "", countryCode = ""] = rest;
+	return {
+		line1,
+		...(line2 !== undefined && { line2 }),
+		city,
+		...(stateCode !== "" && { stateCode: stateCode.toUpperCase() }),
+		postalCode,
+		countryCode: countryCode.toUpperCase(),
+	};
+}
+
+/** Parses `"<weight>lb:<L>x<W>x<H>in"` or `"<weight>kg:<L>x<W>x<H>cm"`, e.g. `"5lb:10x8x6in"`. */
+export function parsePackage(value: string): Package {
+	const match = PACKAGE.exec(value.replace(/\s+/g, "").toLowerCase());
+	if (!match) {
+		throw new UsageError(
+			`--package must look like 5lb:10x8x6in or 2.5kg:30x20x15cm, got "${value}"`,
+		);
+	}
+	const [, weight, weightUnit, length, width, height, lengthUnit] =
+		match.map(String);
+	const [w, l, wd, h] = [weight, length, width, height].map(Number) as [
+		number,
+		number,
+		number,
+		number,
+	];
+
+	if (weightUnit === "lb" && lengthUnit === "in") {
+		return { weightLbs: w, lengthIn: l, widthIn: wd, heightIn: h };
+	}
+	if (weightUnit === "kg" && lengthUnit === "cm") {
+		return { weightKg: w, lengthCm: l, widthCm: wd, heightCm: h };
+	}
+	throw new UsageError(
+		`--package mixes units in "${value}": use lb with in, or kg with cm`,
+	);
+}
@@ -0,0 +1,21 @@
+import { currencyExponent, toDecimal } from "../core/money.js";
+import type { Money } from "../core/types.js";
+
+/** Left-aligned columns separated by two spaces, with the header row first. */
+export function formatTable(header: string[], rows: string[][]): string {
+	const widths = header.map((title, i) =>
+		Math.max(title.length, ...rows.map((row) => (row[i] ?? "").length)),
+	);
+	return [header, ...rows]
+		.map((row) =>
+			row
+				.map((cell, i) => cell.padEnd(widths[i] ?? 0))
+				.join("  ")
+				.trimEnd(),
+		)
+		.join("\n");
+}
+
+export function formatMoney(money: Money): string {
+	return `${toDecimal(money).toFixed(currencyExponent(money.currency))} ${money.currency}`;
+}
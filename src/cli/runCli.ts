@@ -0,0 +1,385 @@
+import { readFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { z } from "zod";
+import type { RegisteredCarrier } from "../carriers/CarrierDependencies.js";
+import { registerCarriers } from "../carriers/registerCarriers.js";
+import { type Config, loadConfig } from "../config.js";
+import { AppError, ValidationError } from "../core/errors.js";
+import {
+	AccountIdSchema,
+	type RateQuote,
+	RateRequestSchema,
+} from "../core/types.js";
+import { OperationRegistry } from "../registry/OperationRegistry.js";
+import { RateShopper } from "../services/RateShopper.js";
+import { parseAddress, parsePackage, UsageError } from "./args.js";
+import { formatMoney, formatTable } from "./format.js";
+
+/** Process exit status per `AppError.code`; anything unrecognised exits 1. */
+export const EXIT_CODES: Record<string, number> = {
+	USAGE_ERROR: 2,
+	VALIDATION_ERROR: 3,
+	AUTHENTICATION_ERROR: 4,
+	OPERATION_NOT_FOUND: 5,
+	CARRIER_API_ERROR: 6,
+	RATE_LIMIT_ERROR: 7,
+	CARRIER_UNAVAILABLE: 8,
+	SHIPMENT_IN_TRANSIT: 9,
+	DUPLICATE_OPERATION: 10,
+	ACCOUNT_NOT_FOUND: 11,
+};
+
+export interface CliEnvironment {
+	stdout(text: string): void;
+	stderr(text: string): void;
+	loadConfig?: () => Config;
+	/** Builds the registry for a loaded config; defaults to every configured carrier. */
+	setup?: (config: Config) => {
+		registry: OperationRegistry;
+		carriers: RegisteredCarrier[];
+	};
+	readFile?: (path: string) => Promise<string>;
+}
+
+export const USAGE = `Usage: cybership <command> [options]
+
+Commands:
+  rate             Quote a shipment with every carrier, or one with --carrier
+  carriers         List registered carriers and their operations
+  auth check       Fetch a token from each configured carrier
+  config validate  Check the environment configuration
+
+Rate options:
+  --from, --to <address>   "<street>, <city>, <state>, <postal code>, <country>"
+  -p, --package <package>  5lb:10x8x6in or 2.5kg:30x20x15cm, repeatable
+  -f, --file <path>        Read the whole rate request from a JSON file
+  -c, --carrier <carrier>  Quote with this carrier only
+  -a, --account <id>       Quote with this named carrier account
+  --sort <strategy>        cheapest (default), fastest or best-value
+
+Global options:
+  -o, --output <format>    table (default) or json
+  -h, --help               Show this help`;
+
+const OPTIONS = {
+	output: { type: "string", short: "o", default: "table" },
+	from: { type: "string" },
+	to: { type: "string" },
+	package: { type: "string", short: "p", multiple: true },
+	file: { type: "string", short: "f" },
+	carrier: { type: "string", short: "c" },
+	account: { type: "string", short: "a" },
+	sort: { type: "string" },
+	help: { type: "boolean", short: "h" },
+} as const;
+
+type Flags = ReturnType<
+	typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>
+>["values"];
+
+const OutputSchema = z.enum(["table", "json"]);
+const SortSchema = z.enum(["cheapest", "fastest", "best-value"]);
+
+interface Command {
+	flags: Flags;
+	json: boolean;
+	env: Required<CliEnvironment>;
+}
+
+/**
+ * Runs one CLI invocation and resolves to its exit status. Failures are
+ * printed to stderr and mapped through `EXIT_CODES`, so scripts can branch
+ * on the `AppError.code` without parsing output.
+ */
+export async function runCli(
+	argv: string[],
+	environment: CliEnvironment,
+): Promise<number> {
+	const env: Required<CliEnvironment> = {
+		loadConfig,
+		setup: defaultSetup,
+		readFile: (path) => readFile(path, "utf-8"),
+		...environment,
+	};
+
+	try {
+		const { values: flags, positionals } = parseCommandLine(argv);
+		if (flags.help) {
+			env.stdout(USAGE);
+			return 0;
+		}
+		if (positionals.length === 0) {
+			throw new UsageError("Missing command");
+		}
+		const output = OutputSchema.safeParse(flags.output);
+		if (!output.success) {
+			throw new UsageError("--output must be table or json");
+		}
+		const command = { flags, json: output.data === "json", env };
+
+		switch (positionals.join(" ")) {
+			case "rate":
+				return await rate(command);
+			case "carriers":
+				return carriers(command);
+			case "auth check":
+				return await authCheck(command);
+			case "config validate":
+				return validateConfig(command);
+			default:
+				throw new UsageError(`Unknown command "${positionals.join(" ")}"`);
+		}
+	} catch (error) {
+		return fail(env, error);
+	}
+}
+
+async function rate({ flags, json, env }: Command): Promise<number> {
+	const sortBy = SortSchema.optional().safeParse(flags.sort);
+	if (!sortBy.success) {
+		throw new UsageError("--sort must be cheapest, fastest or best-value");
+	}
+	if (
+		flags.account !== undefined &&
+		!AccountIdSchema.safeParse(flags.account).success
+	) {
+		throw new UsageError(
+			`--account "${flags.account}" is not a valid account ID`,
+		);
+	}
+	const request = await readRateRequest(flags, env);
+	const { registry } = env.setup(configFrom(env));
+
+	let quotes: RateQuote[];
+	let errors: { carrier: string; error: AppError }[] = [];
+	if (flags.carrier) {
+		quotes = await registry
+			.resolve(`${flags.carrier.toLowerCase()}:rating`)
+			.execute(request);
+	} else {
+		({ quotes, errors } = await new RateShopper(registry).shop(
+			request,
+			sortBy.data,
+		));
+	}
+
+	if (json) {
+		env.stdout(
+			JSON.stringify(
+				{
+					quotes,
+					errors: errors.map(({ carrier, error }) => ({
+						carrier,
+						code: error.code,
+						message: error.message,
+					})),
+				},
+				null,
+				2,
+			),
+		);
+	} else {
+		env.stdout(
+			formatTable(
+				["CARRIER", "SERVICE", "CODE", "TOTAL", "DAYS"],
+				quotes.map((q) => [
+					q.carrier,
+					q.serviceName,
+					q.serviceCode,
+					formatMoney(q.totalCharge),
+					q.estimatedDeliveryDays?.toString() ?? "-",
+				]),
+			),
+		);
+		for (const { carrier, error } of errors) {
+			env.stderr(`${carrier}: ${error.code} ${error.message}`);
+		}
+	}
+
+	// partial results still succeed; only a run with nothing to show fails
+	const [first] = errors;
+	return quotes.length === 0 && first ? exitCodeFor(first.error) : 0;
+}
+
+function carriers({ json, env }: Command): number {
+	const { registry } = env.setup(configFrom(env));
+	const rows = registry.carriers().map((carrier) => ({
+		carrier,
+		operations: registry.operations(carrier),
+	}));
+
+	env.stdout(
+		json
+			? JSON.stringify({ carriers: rows }, null, 2)
+			: formatTable(
+					["CARRIER", "OPERATIONS"],
+					rows.map((row) => [row.carrier, row.operations.join(", ")]),
+				),
+	);
+	return 0;
+}
+
+async function authCheck({ json, env }: Command): Promise<number> {
+	const { carriers } = env.setup(configFrom(env));
+	// every named account logs in with its own credentials, so check each one
+	const logins = carriers.flatMap(({ carrier, auth, accounts }) => [
+		{ carrier, account: undefined as string | undefined, auth },
+		...[...(accounts ?? [])].map(([account, auth]) => ({
+			carrier,
+			account,
+			auth,
+		})),
+	]);
+	const results = await Promise.all(
+		logins.map(async ({ auth, ...login }) => {
+			try {
+				await auth.accessToken();
+				return { ...login, ok: true as const };
+			} catch (error) {
+				return { ...login, ok: false as const, error: toAppError(error) };
+			}
+		}),
+	);
+	const label = (r: (typeof results)[number]) =>
+		r.account === undefined ? r.carrier : `${r.carrier}/${r.account}`;
+
+	if (json) {
+		env.stdout(
+			JSON.stringify(
+				{
+					carriers: results.map((r) => ({
+						carrier: r.carrier,
+						...(r.account !== undefined && { account: r.account }),
+						ok: r.ok,
+						...(!r.ok && {
+							error: { code: r.error.code, message: r.error.message },
+						}),
+					})),
+				},
+				null,
+				2,
+			),
+		);
+	} else {
+		env.stdout(
+			formatTable(
+				["CARRIER", "STATUS", "DETAIL"],
+				results.map((r) =>
+					r.ok
+						? [label(r), "ok", ""]
+						: [label(r), "failed", `${r.error.code} ${r.error.message}`],
+				),
+			),
+		);
+	}
+
+	const failed = results.find((r) => !r.ok);
+	return failed ? exitCodeFor(failed.error) : 0;
+}
+
+function validateConfig({ json, env }: Command): number {
+	const config = configFrom(env);
+	const sections = (["ups", "fedex", "usps"] as const).map((carrier) => ({
+		carrier,
+		configured: config[carrier] !== undefined,
+	}));
+
+	env.stdout(
+		json
+			? JSON.stringify({ valid: true, carriers: sections }, null, 2)
+			: formatTable(
+					["CARRIER", "CONFIG"],
+					sections.map((s) => [s.carrier, s.configured ? "ok" : "not set"]),
+				),
+	);
+	return 0;
+}
+
+async function readRateRequest(flags: Flags, env: Required<CliEnvironment>) {
+	let input: unknown;
+	if (flags.file) {
+		try {
+			input = JSON.parse(await env.readFile(flags.file));
+		} catch (error) {
+			throw new UsageError(
+				`Could not read a JSON rate request from ${flags.file}: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	} else {
+		if (!flags.from || !flags.to || !flags.package?.length) {
+			throw new UsageError(
+				"rate needs --from, --to and at least one --package, or --file",
+			);
+		}
+		input = {
+			origin: parseAddress("from", flags.from),
+			destination: parseAddress("to", flags.to),
+			packages: flags.package.map(parsePackage),
+		};
+	}
+
+	// the flag wins over an accountId in the file
+	if (flags.account !== undefined && typeof input === "object" && input) {
+		input = { ...input, accountId: flags.account };
+	}
+
+	const parsed = RateRequestSchema.safeParse(input);
+	if (!parsed.success) {
+		throw new ValidationError(z.prettifyError(parsed.error));
+	}
+	return parsed.data;
+}
+
+/** Loads the config, turning Zod's issue list into one readable line per problem. */
+function configFrom(env: Required<CliEnvironment>): Config {
+	try {
+		return env.loadConfig();
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			throw new ValidationError(
+				`Invalid configuration:\n${z.prettifyError(error)}`,
+			);
+		}
+		throw error;
+	}
+}
+
+function parseCommandLine(argv: string[]) {
+	try {
+		return parseArgs({
+			args: argv,
+			options: OPTIONS,
+			allowPositionals: true,
+		});
+	} catch (error) {
+		throw new UsageError(
+			error instanceof Error ? error.message : String(error),
+		);
+	}
+}
+
+function defaultSetup(config: Config) {
+	const registry = new OperationRegistry();
+	return { registry, carriers: registerCarriers(registry, config) };
+}
+
+function fail(env: Required<CliEnvironment>, error: unknown): number {
+	const appError = toAppError(error);
+	env.stderr(`${appError.code}: ${appError.message}`);
+	if (appError instanceof UsageError) {
+		env.stderr("Run cybership --help for usage.");
+	}
+	return exitCodeFor(appError);
+}
+
+function exitCodeFor(error: AppError): number {
+	return EXIT_CODES[error.code] ?? 1;
+}
+
+function toAppError(error: unknown): AppError {
+	if (error instanceof AppError) return error;
+	return new AppError(
+		"INTERNAL_ERROR",
+		error instanceof Error ? error.message : String(error),
+	);
+}
@@ -1,21 +1,85 @@
 import { z } from "zod";
+import { AccountIdSchema } from "./core/types.js";
+
+/** An environment variable holding JSON; bad JSON is reported like any other issue. */
+const JsonEnvSchema = z.string().transform((text, ctx) => {
+	try {
+		return JSON.parse(text) as unknown;
+	} catch {
+		ctx.addIssue({ code: "custom", message: "Invalid JSON" });
+		return z.NEVER;
+	}
+});
+
+const UpsAccountSchema = z.object({
+	clientId: z.string().min(1),
+	clientSecret: z.string().min(1),
+	accountNumber: z.string().min(1).optional(),
+});
+
+export type UpsAccountConfig = z.infer<typeof UpsAccountSchema>;
 
 const ConfigSchema = z.object({
+	server: z.object({
+		port: z.coerce.number().int().min(0).max(65535).default(3000),
+	}),
 	ups: z.object({
 		clientId: z.string().min(1),
 		clientSecret: z.string().min(1),
+		accountNumber: z.string().min(1).optional(),
 		baseUrl: z.string().url(),
+		tokenFile: z.string().min(1).optional(),
+		/** Merchant accounts by ID, used instead of the default credentials when a call selects one. */
+		accounts: JsonEnvSchema.pipe(
+			z.record(AccountIdSchema, UpsAccountSchema),
+		).optional(),
 	}),
+	fedex: z
+		.object({
+			clientId: z.string().min(1),
+			clientSecret: z.string().min(1),
+			accountNumber: z.string().min(1),
+			baseUrl: z.string().url(),
+		})
+		.optional(),
+	usps: z
+		.object({
+			clientId: z.string().min(1),
+			clientSecret: z.string().min(1),
+			baseUrl: z.string().url(),
+		})
+		.optional(),
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
 
 export function loadConfig(): Config {
 	return ConfigSchema.parse({
+		server: {
+			port: process.env.PORT || undefined,
+		},
 		ups: {
 			clientId: process.env.UPS_CLIENT_ID,
 			clientSecret: process.env.UPS_CLIENT_SECRET,
+			accountNumber: process.env.UPS_ACCOUNT_NUMBER || undefined,
 			baseUrl: process.env.UPS_BASE_URL,
+			tokenFile: process.env.UPS_TOKEN_FILE || undefined,
+			accounts: process.env.UPS_ACCOUNTS || undefined,
 		},
+		fedex: process.env.FEDEX_CLIENT_ID
+			? {
+					clientId: process.env.FEDEX_CLIENT_ID,
+					clientSecret: process.env.FEDEX_CLIENT_SECRET,
+					accountNumber: process.env.FEDEX_ACCOUNT_NUMBER,
+					baseUrl: process.env.FEDEX_BASE_URL,
+				}
+			: undefined,
+		usps: process.env.USPS_CLIENT_ID
+			? {
+					clientId: process.env.USPS_CLIENT_ID,
+					clientSecret: process.env.USPS_CLIENT_SECRET,
+					baseUrl: process.env.USPS_BASE_URL,
+				}
+			: undefined,
 	});
 }
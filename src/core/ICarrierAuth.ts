@@ -2,6 +2,10 @@ export interface ICarrierAuth {
 	/** Returns a valid access token, serving from cache when possible. */
 	accessToken(): Promise<string>;
 
-	/** Invalidates any cached credentials, forcing re-authentication on the next call. */
-	clearToken(): void;
+	/**
+	 * Invalidates cached credentials, forcing re-authentication on the next
+	 * call. `rejectedToken` names the token the carrier refused, so a client can
+	 * ignore a late report about a token it has already replaced.
+	 */
+	clearToken(rejectedToken?: string): void;
 }
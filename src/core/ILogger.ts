@@ -0,0 +1,9 @@
+export type LogFields = Record<string, unknown>;
+
+/** Structured logger; adapts to pino, winston or console with a thin wrapper. */
+export interface ILogger {
+	debug(message: string, fields?: LogFields): void;
+	info(message: string, fields?: LogFields): void;
+	warn(message: string, fields?: LogFields): void;
+	error(message: string, fields?: LogFields): void;
+}
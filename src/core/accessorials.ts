@@ -0,0 +1,46 @@
+import { ValidationError } from "./errors.js";
+import type {
+	PackageAccessorials,
+	RateRequest,
+	ShipmentAccessorials,
+} from "./types.js";
+
+export type Accessorial =
+	| keyof PackageAccessorials
+	| keyof ShipmentAccessorials;
+
+/** Accessorials switched on anywhere in the request, in a stable order. */
+export function requestedAccessorials(request: RateRequest): Accessorial[] {
+	const requested = new Set<Accessorial>();
+	const collect = (
+		accessorials: PackageAccessorials | ShipmentAccessorials | undefined,
+	) => {
+		for (const [name, value] of Object.entries(accessorials ?? {})) {
+			if (value !== undefined && value !== false) {
+				requested.add(name as Accessorial);
+			}
+		}
+	};
+	collect(request.accessorials);
+	for (const pkg of request.packages) collect(pkg.accessorials);
+	return [...requested].sort();
+}
+
+/**
+ * Rejects requests asking for accessorials outside `supported`, so a carrier
+ * never returns a quote that silently leaves them out.
+ */
+export function assertAccessorialsSupported(
+	carrier: string,
+	request: RateRequest,
+	supported: ReadonlySet<Accessorial>,
+): void {
+	const unsupported = requestedAccessorials(request).filter(
+		(name) => !supported.has(name),
+	);
+	if (unsupported.length > 0) {
+		throw new ValidationError(
+			`${carrier} rating does not support ${unsupported.join(", ")}`,
+		);
+	}
+}
@@ -27,6 +27,30 @@ export class OperationNotFoundError extends AppError {
 	}
 }
 
+/** The call selected an account the operation has no credentials for. */
+export class AccountNotFoundError extends AppError {
+	constructor(
+		operation: string,
+		public readonly accountId: string | undefined,
+	) {
+		super(
+			"ACCOUNT_NOT_FOUND",
+			accountId === undefined
+				? `"${operation}" has no default account; select one of its named accounts`
+				: `No account "${accountId}" is configured for "${operation}"`,
+		);
+	}
+}
+
+export class DuplicateOperationError extends AppError {
+	constructor(key: string) {
+		super(
+			"DUPLICATE_OPERATION",
+			`An operation is already registered for "${key}"`,
+		);
+	}
+}
+
 export class CarrierApiError extends AppError {
 	constructor(
 		message: string,
@@ -39,8 +63,36 @@ export class CarrierApiError extends AppError {
 }
 
 export class RateLimitError extends CarrierApiError {
-	constructor(message = "Rate limit exceeded", options?: ErrorOptions) {
+	constructor(
+		message = "Rate limit exceeded",
+		public readonly retryAfterMs?: number,
+		options?: ErrorOptions,
+	) {
 		super(message, 429, undefined, options);
 		this.code = "RATE_LIMIT_ERROR";
 	}
 }
+
+export class ShipmentInTransitError extends AppError {
+	constructor(
+		message: string,
+		public readonly shipmentId: string,
+		options?: ErrorOptions,
+	) {
+		super("SHIPMENT_IN_TRANSIT", message, options);
+	}
+}
+
+export class CarrierUnavailableError extends AppError {
+	constructor(
+		public readonly carrier: string,
+		public readonly retryAfterMs: number,
+		options?: ErrorOptions,
+	) {
+		super(
+			"CARRIER_UNAVAILABLE",
+			`${carrier} is unavailable, retry in ${retryAfterMs}ms`,
+			options,
+		);
+	}
+}
@@ -0,0 +1,74 @@
+import { ValidationError } from "./errors.js";
+import type { Commodity, Money } from "./types.js";
+
+// ISO 4217 minor-unit exponents that differ from the usual 2
+const CURRENCY_EXPONENTS: Record<string, number> = {
+	JPY: 0,
+	KRW: 0,
+	CLP: 0,
+	ISK: 0,
+	VND: 0,
+	BHD: 3,
+	JOD: 3,
+	KWD: 3,
+	OMR: 3,
+	TND: 3,
+};
+
+export function currencyExponent(currency: string): number {
+	return CURRENCY_EXPONENTS[currency] ?? 2;
+}
+
+/**
+ * Builds a `Money` from a decimal amount. Values are converted digit by digit
+ * so carrier amounts like "12.35" never pass through binary floating point.
+ * Numbers go through their shortest string form, which is the decimal the
+ * carrier wrote in its JSON.
+ */
+export function toMoney(value: string | number, currency: string): Money {
+	const exponent = currencyExponent(currency);
+	if (typeof value === "number") {
+		const text = value.toString();
+		// tiny amounts print in exponent form, which the digit parser rejects
+		return toMoney(text.includes("e-") ? value.toFixed(20) : text, currency);
+	}
+
+	const match = /^(-?)(\d*)(?:\.(\d*))?$/.exec(value.trim());
+	if (!match || (match[2] === "" && !match[3])) {
+		throw new ValidationError(`Invalid monetary value "${value}"`);
+	}
+	const [, sign, whole = "", fraction = ""] = match;
+	const padded = fraction.padEnd(exponent + 1, "0");
+	let amount =
+		Number(whole || "0") * 10 ** exponent +
+		Number(padded.slice(0, exponent) || "0");
+	// round half up on the first dropped digit
+	if (Number(padded[exponent]) >= 5) amount += 1;
+	return { amount: sign === "-" ? -amount : amount, currency };
+}
+
+export function addMoney(a: Money, b: Money): Money {
+	if (a.currency !== b.currency) {
+		throw new ValidationError(
+			`Cannot add ${a.currency} and ${b.currency} amounts`,
+		);
+	}
+	return { amount: a.amount + b.amount, currency: a.currency };
+}
+
+/** Decimal representation, e.g. `{ amount: 1235, currency: "USD" }` → `12.35`. */
+export function toDecimal(money: Money): number {
+	return money.amount / 10 ** currencyExponent(money.currency);
+}
+
+/** Total declared value of a commodity list; every value must be in one currency. */
+export function customsValue(commodities: Commodity[]): Money {
+	const [first, ...rest] = commodities.map((c) => ({
+		amount: c.value.amount * c.quantity,
+		currency: c.value.currency,
+	}));
+	if (!first) {
+		throw new ValidationError("At least one commodity is required");
+	}
+	return rest.reduce(addMoney, first);
+}
@@ -1,43 +1,371 @@
 import { z } from "zod";
 
-export const AddressSchema = z.object({
-	line1: z.string().min(1),
-	line2: z.string().optional(),
-	city: z.string().min(1),
-	stateCode: z.string().length(2),
-	postalCode: z.string().min(1),
-	countryCode: z.string().length(2),
-});
+// carriers refuse US and Canadian addresses without one; elsewhere it is often unused
+const STATE_REQUIRED_COUNTRIES = new Set(["US", "CA"]);
+
+/** A named carrier account, as configured next to the carrier's default credentials. */
+export const AccountIdSchema = z.string().regex(/^[\w.-]{1,64}$/);
+
+export const AddressSchema = z
+	.object({
+		line1: z.string().min(1),
+		line2: z.string().optional(),
+		city: z.string().min(1),
+		/** ISO 3166-2 subdivision code without the country prefix, e.g. "NY" or "NSW". */
+		stateCode: z.string().min(1).max(3).optional(),
+		postalCode: z.string().min(1),
+		countryCode: z.string().length(2),
+		residential: z.boolean().optional(),
+	})
+	.refine(
+		(address) =>
+			address.stateCode !== undefined ||
+			!STATE_REQUIRED_COUNTRIES.has(address.countryCode),
+		{
+			message: "stateCode is required for US and Canadian addresses",
+			path: ["stateCode"],
+		},
+	);
 
 export type Address = z.infer<typeof AddressSchema>;
 
-export const PackageSchema = z.object({
+export const UnitSystemSchema = z.enum(["imperial", "metric"]);
+
+export type UnitSystem = z.infer<typeof UnitSystemSchema>;
+
+export const MoneySchema = z.object({
+	/** Integer amount in the currency's minor unit (cents for USD). */
+	amount: z.number().int(),
+	/** ISO 4217 currency code. */
+	currency: z.string().length(3),
+});
+
+export type Money = z.infer<typeof MoneySchema>;
+
+/** Package-level extras; each carrier rejects the ones it cannot quote on a lane. */
+export const PackageAccessorialsSchema = z.object({
+	/** Value to insure the package for. */
+	declaredValue: MoneySchema.optional(),
+	signature: z.enum(["required", "adult"]).optional(),
+	/** Amount to collect on delivery. */
+	cod: MoneySchema.optional(),
+	additionalHandling: z.boolean().optional(),
+	hazmat: z.boolean().optional(),
+	/** Weight of dry ice packed with the contents. */
+	dryIceKg: z.number().positive().optional(),
+});
+
+export type PackageAccessorials = z.infer<typeof PackageAccessorialsSchema>;
+
+export const ShipmentAccessorialsSchema = z.object({
+	saturdayDelivery: z.boolean().optional(),
+});
+
+export type ShipmentAccessorials = z.infer<typeof ShipmentAccessorialsSchema>;
+
+export const ImperialPackageSchema = z.object({
 	weightLbs: z.number().positive(),
 	lengthIn: z.number().positive(),
 	widthIn: z.number().positive(),
 	heightIn: z.number().positive(),
+	accessorials: PackageAccessorialsSchema.optional(),
 });
 
+export type ImperialPackage = z.infer<typeof ImperialPackageSchema>;
+
+export const MetricPackageSchema = z.object({
+	weightKg: z.number().positive(),
+	lengthCm: z.number().positive(),
+	widthCm: z.number().positive(),
+	heightCm: z.number().positive(),
+	accessorials: PackageAccessorialsSchema.optional(),
+});
+
+export type MetricPackage = z.infer<typeof MetricPackageSchema>;
+
+/** A package declares its unit system through its field names. */
+export const PackageSchema = z.union([
+	ImperialPackageSchema,
+	MetricPackageSchema,
+]);
+
 export type Package = z.infer<typeof PackageSchema>;
 
+export const BillableWeightSchema = z.object({
+	value: z.number().positive(),
+	unit: z.enum(["lb", "kg"]),
+	/** `dimensional` when package volume, not actual weight, set the billed weight. */
+	basis: z.enum(["actual", "dimensional"]),
+});
+
+export type BillableWeight = z.infer<typeof BillableWeightSchema>;
+
+export const CommoditySchema = z.object({
+	description: z.string().min(1),
+	/** Harmonized System code, 6 to 10 digits without dots. */
+	hsCode: z.string().regex(/^\d{6,10}$/),
+	/** Where the goods were made, which decides preferential duty rates. */
+	originCountryCode: z.string().length(2),
+	quantity: z.number().int().positive(),
+	/** Customs value of one unit. */
+	value: MoneySchema,
+});
+
+export type Commodity = z.infer<typeof CommoditySchema>;
+
 export const RateRequestSchema = z.object({
 	origin: AddressSchema,
 	destination: AddressSchema,
 	packages: z.array(PackageSchema).min(1),
+	/** Contents declared to customs on cross-border shipments. */
+	commodities: z.array(CommoditySchema).min(1).optional(),
+	/** Local date, optionally with time, the carrier takes the shipment at the origin. Defaults to now. */
+	shipDate: z
+		.string()
+		.regex(/^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2})?$/)
+		.optional(),
+	/** Ask for delivery dates and commitments, which some carriers only send on request. */
+	includeTransitTimes: z.boolean().optional(),
+	accessorials: ShipmentAccessorialsSchema.optional(),
+	/** Named carrier account to rate with instead of the default one. */
+	accountId: AccountIdSchema.optional(),
 });
 
 export type RateRequest = z.infer<typeof RateRequestSchema>;
 
+export const ChargeTypeSchema = z.enum([
+	"base",
+	"transportation",
+	"service_options",
+	"fuel",
+	"surcharge",
+]);
+
+export type ChargeType = z.infer<typeof ChargeTypeSchema>;
+
+export const ChargeSchema = z.object({
+	type: ChargeTypeSchema,
+	description: z.string().min(1),
+	amount: MoneySchema,
+});
+
+export type Charge = z.infer<typeof ChargeSchema>;
+
 export const RateQuoteSchema = z.object({
 	carrier: z.string().min(1),
 	serviceCode: z.string().min(1),
 	serviceName: z.string().min(1),
-	totalChargeUSD: z.number().positive(),
+	/** What the shipper pays: the negotiated total when the carrier returned one, else the published total. */
+	totalCharge: MoneySchema,
+	/** Carrier list price. */
+	publishedCharge: MoneySchema.optional(),
+	/** Account-specific contract price, when the carrier account has negotiated rates. */
+	negotiatedCharge: MoneySchema.optional(),
+	/** Charge lines as reported by the carrier. Lines may overlap, so they need not sum to `totalCharge`. */
+	charges: z.array(ChargeSchema),
+	billableWeight: BillableWeightSchema.optional(),
 	estimatedDeliveryDays: z.number().int().positive().optional(),
 	guaranteedDeliveryDate: z
 		.string()
 		.regex(/^\d{4}-\d{2}-\d{2}$/)
 		.optional(),
+	/** Expected delivery date, guaranteed or not. */
+	deliveryDate: z
+		.string()
+		.regex(/^\d{4}-\d{2}-\d{2}$/)
+		.optional(),
+	/** Time of day delivery is committed by, local to the destination, e.g. "10:30". */
+	deliveryTime: z
+		.string()
+		.regex(/^\d{2}:\d{2}$/)
+		.optional(),
+	/** Whether the carrier guarantees the delivery date; unset when it did not say. */
+	deliveryGuaranteed: z.boolean().optional(),
 });
 
 export type RateQuote = z.infer<typeof RateQuoteSchema>;
+
+export const LandedCostRequestSchema = RateRequestSchema.extend({
+	commodities: z.array(CommoditySchema).min(1),
+	/** Carrier service the shipping rate is quoted for. */
+	serviceCode: z.string().min(1),
+});
+
+export type LandedCostRequest = z.infer<typeof LandedCostRequestSchema>;
+
+export const LandedCostItemSchema = z.object({
+	hsCode: z.string().min(1),
+	description: z.string().min(1),
+	duties: MoneySchema,
+	/** VAT or GST plus any other import taxes and fees on the item. */
+	taxes: MoneySchema,
+});
+
+export type LandedCostItem = z.infer<typeof LandedCostItemSchema>;
+
+export const LandedCostQuoteSchema = z.object({
+	carrier: z.string().min(1),
+	shipping: RateQuoteSchema,
+	/** Import charges, in the currency the commodities were declared in. */
+	duties: MoneySchema,
+	taxes: MoneySchema,
+	brokerageFees: MoneySchema,
+	/** Shipping plus import charges; left out when the two come in different currencies. */
+	totalLandedCost: MoneySchema.optional(),
+	/** Per commodity, in request order. */
+	items: z.array(LandedCostItemSchema),
+});
+
+export type LandedCostQuote = z.infer<typeof LandedCostQuoteSchema>;
+
+export const ContactSchema = z.object({
+	name: z.string().min(1),
+	phone: z.string().min(1).optional(),
+	email: z.string().email().optional(),
+});
+
+export type Contact = z.infer<typeof ContactSchema>;
+
+export const LabelFormatSchema = z.enum(["PDF", "ZPL", "PNG", "GIF"]);
+
+export type LabelFormat = z.infer<typeof LabelFormatSchema>;
+
+export const ShipmentRequestSchema = z.object({
+	origin: AddressSchema,
+	destination: AddressSchema,
+	shipper: ContactSchema,
+	recipient: ContactSchema,
+	packages: z.array(PackageSchema).min(1),
+	serviceCode: z.string().min(1),
+	labelFormat: LabelFormatSchema.optional(),
+	description: z.string().min(1).optional(),
+	/** Named carrier account to bill instead of the default one. */
+	accountId: AccountIdSchema.optional(),
+});
+
+export type ShipmentRequest = z.infer<typeof ShipmentRequestSchema>;
+
+export const ShippingLabelSchema = z.object({
+	trackingNumber: z.string().min(1),
+	format: LabelFormatSchema,
+	data: z.instanceof(Buffer),
+});
+
+export type ShippingLabel = z.infer<typeof ShippingLabelSchema>;
+
+export const ShipmentResultSchema = z.object({
+	carrier: z.string().min(1),
+	shipmentId: z.string().min(1),
+	trackingNumbers: z.array(z.string().min(1)).min(1),
+	totalCharge: MoneySchema,
+	labels: z.array(ShippingLabelSchema),
+});
+
+export type ShipmentResult = z.infer<typeof ShipmentResultSchema>;
+
+export const VoidShipmentRequestSchema = z.object({
+	shipmentId: z.string().min(1),
+	trackingNumbers: z.array(z.string().min(1)).min(1).optional(),
+	/** The account the shipment was created with, when not the default one. */
+	accountId: AccountIdSchema.optional(),
+});
+
+export type VoidShipmentRequest = z.infer<typeof VoidShipmentRequestSchema>;
+
+export const VoidPackageResultSchema = z.object({
+	trackingNumber: z.string().min(1),
+	voided: z.boolean(),
+	reason: z.string().optional(),
+});
+
+export type VoidPackageResult = z.infer<typeof VoidPackageResultSchema>;
+
+export const VoidShipmentResultSchema = z.object({
+	carrier: z.string().min(1),
+	shipmentId: z.string().min(1),
+	voided: z.boolean(),
+	packages: z.array(VoidPackageResultSchema),
+});
+
+export type VoidShipmentResult = z.infer<typeof VoidShipmentResultSchema>;
+
+export const TrackingStatusSchema = z.enum([
+	"label_created",
+	"in_transit",
+	"out_for_delivery",
+	"delivered",
+	"exception",
+	"returned",
+]);
+
+export type TrackingStatus = z.infer<typeof TrackingStatusSchema>;
+
+export const TrackingRequestSchema = z.object({
+	trackingNumber: z.string().min(1),
+	accountId: AccountIdSchema.optional(),
+});
+
+export type TrackingRequest = z.infer<typeof TrackingRequestSchema>;
+
+export const TrackingLocationSchema = z.object({
+	city: z.string().min(1).optional(),
+	stateCode: z.string().min(1).optional(),
+	postalCode: z.string().min(1).optional(),
+	countryCode: z.string().length(2).optional(),
+});
+
+export type TrackingLocation = z.infer<typeof TrackingLocationSchema>;
+
+export const TrackingEventSchema = z.object({
+	status: TrackingStatusSchema,
+	description: z.string(),
+	timestamp: z.string().datetime({ offset: true }),
+	location: TrackingLocationSchema.optional(),
+});
+
+export type TrackingEvent = z.infer<typeof TrackingEventSchema>;
+
+export const TrackingResultSchema = z.object({
+	carrier: z.string().min(1),
+	trackingNumber: z.string().min(1),
+	status: TrackingStatusSchema,
+	estimatedDeliveryDate: z
+		.string()
+		.regex(/^\d{4}-\d{2}-\d{2}$/)
+		.optional(),
+	/** Oldest first. */
+	events: z.array(TrackingEventSchema),
+});
+
+export type TrackingResult = z.infer<typeof TrackingResultSchema>;
+
+export const AddressClassificationSchema = z.enum([
+	"residential",
+	"commercial",
+	"unknown",
+]);
+
+export type AddressClassification = z.infer<typeof AddressClassificationSchema>;
+
+export const AddressMatchSchema = z.enum(["exact", "ambiguous", "none"]);
+
+export type AddressMatch = z.infer<typeof AddressMatchSchema>;
+
+export const AddressCandidateSchema = z.object({
+	address: AddressSchema,
+	classification: AddressClassificationSchema,
+});
+
+export type AddressCandidate = z.infer<typeof AddressCandidateSchema>;
+
+export const AddressValidationResultSchema = z.object({
+	carrier: z.string().min(1),
+	match: AddressMatchSchema,
+	classification: AddressClassificationSchema,
+	/** Corrected addresses, best first, with `residential` set from the classification. */
+	candidates: z.array(AddressCandidateSchema),
+});
+
+export type AddressValidationResult = z.infer<
+	typeof AddressValidationResultSchema
+>;
@@ -0,0 +1,103 @@
+import type {
+	BillableWeight,
+	ImperialPackage,
+	MetricPackage,
+	Package,
+	UnitSystem,
+} from "./types.js";
+
+const KG_PER_LB = 0.45359237;
+const CM_PER_IN = 2.54;
+
+/** Carrier divisor rules for dimensional weight. */
+export interface DimWeightRules {
+	/** Cubic inches per pound. */
+	imperialDivisor: number;
+	/** Cubic centimetres per kilogram. */
+	metricDivisor: number;
+	/** Packages at or below this volume are billed on actual weight only. */
+	minCubicInches?: number;
+}
+
+export function isMetric(pkg: Package): pkg is MetricPackage {
+	return "weightKg" in pkg;
+}
+
+export function toImperial(pkg: Package): ImperialPackage {
+	if (!isMetric(pkg)) return pkg;
+	return {
+		weightLbs: round(pkg.weightKg / KG_PER_LB, 2),
+		lengthIn: round(pkg.lengthCm / CM_PER_IN, 2),
+		widthIn: round(pkg.widthCm / CM_PER_IN, 2),
+		heightIn: round(pkg.heightCm / CM_PER_IN, 2),
+	};
+}
+
+export function toMetric(pkg: Package): MetricPackage {
+	if (isMetric(pkg)) return pkg;
+	return {
+		weightKg: round(pkg.weightLbs * KG_PER_LB, 2),
+		lengthCm: round(pkg.lengthIn * CM_PER_IN, 2),
+		widthCm: round(pkg.widthIn * CM_PER_IN, 2),
+		heightCm: round(pkg.heightIn * CM_PER_IN, 2),
+	};
+}
+
+/**
+ * Billable weight of a shipment in the given unit system: for each package the
+ * greater of actual and dimensional weight, rounded up to the carrier increment
+ * (1 lb, or 0.5 kg), then summed.
+ */
+export function billableWeight(
+	packages: Package[],
+	system: UnitSystem,
+	rules: DimWeightRules,
+): BillableWeight {
+	let actualTotal = 0;
+	let billableTotal = 0;
+
+	for (const pkg of packages) {
+		const { actual, dimensional } =
+			system === "metric"
+				? metricWeights(toMetric(pkg), rules)
+				: imperialWeights(toImperial(pkg), rules);
+		const increment = system === "metric" ? 0.5 : 1;
+		const roundedActual = roundUp(actual, increment);
+		actualTotal += roundedActual;
+		billableTotal += Math.max(roundedActual, roundUp(dimensional, increment));
+	}
+
+	return {
+		value: round(billableTotal, 1),
+		unit: system === "metric" ? "kg" : "lb",
+		basis: billableTotal > actualTotal ? "dimensional" : "actual",
+	};
+}
+
+function imperialWeights(pkg: ImperialPackage, rules: DimWeightRules) {
+	const volume = pkg.lengthIn * pkg.widthIn * pkg.heightIn;
+	const applies = volume > (rules.minCubicInches ?? 0);
+	return {
+		actual: pkg.weightLbs,
+		dimensional: applies ? volume / rules.imperialDivisor : 0,
+	};
+}
+
+function metricWeights(pkg: MetricPackage, rules: DimWeightRules) {
+	const volume = pkg.lengthCm * pkg.widthCm * pkg.heightCm;
+	const applies = volume / CM_PER_IN ** 3 > (rules.minCubicInches ?? 0);
+	return {
+		actual: pkg.weightKg,
+		dimensional: applies ? volume / rules.metricDivisor : 0,
+	};
+}
+
+function roundUp(value: number, increment: number): number {
+	// tolerate float noise such as 5.000000001 so exact weights do not jump a step
+	return Math.ceil(round(value / increment, 6)) * increment;
+}
+
+function round(value: number, digits: number): number {
+	const factor = 10 ** digits;
+	return Math.round(value * factor) / factor;
+}
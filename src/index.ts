@@ -0,0 +1,27 @@
+export type {
+	CarrierDependencies,
+	RegisteredCarrier,
+} from "./carriers/CarrierDependencies.js";
+export { registerFedexCarrier } from "./carriers/fedex/register.js";
+export { registerCarriers } from "./carriers/registerCarriers.js";
+export { registerUpsCarrier } from "./carriers/ups/register.js";
+export { registerUspsCarrier } from "./carriers/usps/register.js";
+export { type Config, loadConfig } from "./config.js";
+export * from "./core/accessorials.js";
+export * from "./core/errors.js";
+export type { ICarrierAuth } from "./core/ICarrierAuth.js";
+export type { ICarrierOperation } from "./core/ICarrierOperation.js";
+export type { ILogger, LogFields } from "./core/ILogger.js";
+export * from "./core/types.js";
+export * from "./infra/CacheStore.js";
+export * from "./infra/CircuitBreaker.js";
+export * from "./infra/metrics.js";
+export * from "./infra/Telemetry.js";
+export * from "./infra/TokenStore.js";
+export * from "./registry/accounts.js";
+export * from "./registry/middleware.js";
+export * from "./registry/OperationCatalog.js";
+export * from "./registry/OperationRegistry.js";
+export * from "./server/ApiServer.js";
+export * from "./services/CachedRatingOperation.js";
+export * from "./services/RateShopper.js";
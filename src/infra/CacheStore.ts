@@ -0,0 +1,51 @@
+/**
+ * Storage behind the rate cache. Async so a shared store such as Redis can
+ * implement it; entries must not be returned once their TTL has passed.
+ */
+export interface CacheStore<T> {
+	get(key: string): Promise<T | undefined>;
+	set(key: string, value: T, ttlMs: number): Promise<void>;
+	delete(key: string): Promise<void>;
+}
+
+interface Entry<T> {
+	value: T;
+	expiresAt: number;
+}
+
+/** In-process store that evicts the least recently used entry once full. */
+export class LruCacheStore<T> implements CacheStore<T> {
+	// Map iteration follows insertion order, so re-inserting on read keeps the oldest entry first
+	private entries = new Map<string, Entry<T>>();
+
+	constructor(private readonly maxEntries = 1_000) {}
+
+	get size(): number {
+		return this.entries.size;
+	}
+
+	async get(key: string): Promise<T | undefined> {
+		const entry = this.entries.get(key);
+		if (!entry) return undefined;
+
+		this.entries.delete(key);
+		if (entry.expiresAt <= Date.now()) return undefined;
+		this.entries.set(key, entry);
+		return entry.value;
+	}
+
+	async set(key: string, value: T, ttlMs: number): Promise<void> {
+		this.entries.delete(key);
+		this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+		while (this.entries.size > this.maxEntries) {
+			const oldest = this.entries.keys().next().value;
+			if (oldest === undefined) break;
+			this.entries.delete(oldest);
+		}
+	}
+
+	async delete(key: string): Promise<void> {
+		this.entries.delete(key);
+	}
+}
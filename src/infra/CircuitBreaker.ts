@@ -0,0 +1,163 @@
+import {
+	CarrierApiError,
+	CarrierUnavailableError,
+	RateLimitError,
+} from "../core/errors.js";
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitBreakerOptions {
+	/** Share of failed calls in the window that opens the circuit, 0..1. */
+	failureRateThreshold: number;
+	/** Calls the window must hold before the failure rate is trusted. */
+	minimumCalls: number;
+	/** Number of most recent calls the failure rate is computed over. */
+	windowSize: number;
+	/** How long an open circuit fails fast before letting a trial call through. */
+	coolDownMs: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+	failureRateThreshold: 0.5,
+	minimumCalls: 5,
+	windowSize: 20,
+	coolDownMs: 30_000,
+};
+
+export interface CircuitSnapshot {
+	carrier: string;
+	state: CircuitState;
+	failureRate: number;
+	calls: number;
+	/** Epoch ms at which an open circuit lets a trial call through. */
+	openUntil?: number;
+}
+
+/**
+ * Tracks the outcome of recent calls to one carrier. Once the failure rate
+ * crosses the threshold the circuit opens and calls fail fast with
+ * `CarrierUnavailableError`. After the cool-down a single trial call decides
+ * whether it closes again or stays open for another cool-down.
+ *
+ * Only outages count as failures: timeouts, network errors and 5xx. A 4xx is
+ * the caller's mistake and a 429 is throttling, so neither opens the circuit.
+ */
+export class CircuitBreaker {
+	private readonly options: CircuitBreakerOptions;
+	private outcomes: boolean[] = [];
+	private openedAt: number | undefined;
+	private trialInFlight = false;
+
+	constructor(
+		readonly carrier: string,
+		options: Partial<CircuitBreakerOptions> = {},
+	) {
+		this.options = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...options };
+	}
+
+	get state(): CircuitState {
+		if (this.openedAt === undefined) return "closed";
+		return Date.now() - this.openedAt >= this.options.coolDownMs
+			? "half_open"
+			: "open";
+	}
+
+	/** Whether a call made now would reach the carrier. */
+	isAvailable(): boolean {
+		const state = this.state;
+		return state === "closed" || (state === "half_open" && !this.trialInFlight);
+	}
+
+	snapshot(): CircuitSnapshot {
+		const failures = this.outcomes.filter((ok) => !ok).length;
+		return {
+			carrier: this.carrier,
+			state: this.state,
+			failureRate: this.outcomes.length ? failures / this.outcomes.length : 0,
+			calls: this.outcomes.length,
+			...(this.openedAt !== undefined && {
+				openUntil: this.openedAt + this.options.coolDownMs,
+			}),
+		};
+	}
+
+	async execute<T>(call: () => Promise<T>): Promise<T> {
+		const state = this.state;
+		if (!this.isAvailable()) {
+			throw new CarrierUnavailableError(this.carrier, this.remainingMs());
+		}
+
+		const isTrial = state === "half_open";
+		if (isTrial) this.trialInFlight = true;
+		try {
+			const result = await call();
+			this.record(true, isTrial);
+			return result;
+		} catch (error) {
+			this.record(!isOutage(error), isTrial);
+			throw error;
+		} finally {
+			if (isTrial) this.trialInFlight = false;
+		}
+	}
+
+	private record(ok: boolean, isTrial: boolean): void {
+		if (isTrial) {
+			if (ok) {
+				this.openedAt = undefined;
+				this.outcomes = [];
+			} else {
+				this.openedAt = Date.now();
+			}
+			return;
+		}
+
+		this.outcomes.push(ok);
+		if (this.outcomes.length > this.options.windowSize) this.outcomes.shift();
+
+		const failures = this.outcomes.filter((o) => !o).length;
+		if (
+			this.openedAt === undefined &&
+			this.outcomes.length >= this.options.minimumCalls &&
+			failures / this.outcomes.length >= this.options.failureRateThreshold
+		) {
+			this.openedAt = Date.now();
+		}
+	}
+
+	private remainingMs(): number {
+		if (this.openedAt === undefined) return 0;
+		return Math.max(0, this.openedAt + this.options.coolDownMs - Date.now());
+	}
+}
+
+/** One breaker per carrier, shared by every operation that talks to it. */
+export class CircuitBreakerRegistry {
+	private breakers = new Map<string, CircuitBreaker>();
+
+	constructor(private readonly options: Partial<CircuitBreakerOptions> = {}) {}
+
+	forCarrier(carrier: string): CircuitBreaker {
+		let breaker = this.breakers.get(carrier);
+		if (!breaker) {
+			breaker = new CircuitBreaker(carrier, this.options);
+			this.breakers.set(carrier, breaker);
+		}
+		return breaker;
+	}
+
+	isAvailable(carrier: string): boolean {
+		return this.breakers.get(carrier)?.isAvailable() ?? true;
+	}
+
+	snapshots(): CircuitSnapshot[] {
+		return [...this.breakers.values()].map((b) => b.snapshot());
+	}
+}
+
+function isOutage(error: unknown): boolean {
+	if (!(error instanceof CarrierApiError) || error instanceof RateLimitError) {
+		return false;
+	}
+	return error.httpStatus === 0 || error.httpStatus >= 500;
+}
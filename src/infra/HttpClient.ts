@@ -5,42 +5,122 @@ import {
 	RateLimitError,
 } from "../core/errors.js";
 import type { ICarrierAuth } from "../core/ICarrierAuth.js";
+import type { CircuitBreaker } from "./CircuitBreaker.js";
+import {
+	DEFAULT_RETRY_POLICY,
+	isIdempotentMethod,
+	parseRetryAfter,
+	type RetryPolicy,
+	retryDelayMs,
+	sleep,
+} from "./retry.js";
+import {
+	type RequestStartEvent,
+	Telemetry,
+	withCorrelationId,
+} from "./Telemetry.js";
 
 export interface HttpClientOptions {
 	baseURL: string;
+	/** Names the carrier in telemetry; defaults to the API host. */
+	carrier?: string;
 	auth: ICarrierAuth;
 	timeoutMs?: number;
+	retry?: Partial<RetryPolicy>;
+	/** Shared with the carrier's other clients so an outage fails fast everywhere. */
+	circuitBreaker?: CircuitBreaker;
+	telemetry?: Telemetry;
+}
+
+export interface HttpRequestConfig extends AxiosRequestConfig {
+	/**
+	 * Whether the call is safe to repeat after a failure that may have reached
+	 * the carrier. Defaults to the HTTP method's semantics, so a POST that only
+	 * reads (rating, address validation) should set this to true.
+	 */
+	idempotent?: boolean;
 }
 
 export class HttpClient {
+	/** Shared with the operations using this client so their events land in the same place. */
+	readonly telemetry: Telemetry;
 	private readonly client: AxiosInstance;
+	private readonly baseURL: string;
+	private readonly carrier: string;
 	private readonly auth: ICarrierAuth;
+	private readonly retry: RetryPolicy;
+	private readonly circuitBreaker: CircuitBreaker | undefined;
 
 	constructor(options: HttpClientOptions) {
 		this.auth = options.auth;
+		this.baseURL = options.baseURL;
+		this.carrier = options.carrier ?? new URL(options.baseURL).hostname;
+		this.telemetry = options.telemetry ?? new Telemetry();
+		this.circuitBreaker = options.circuitBreaker;
+		this.retry = { ...DEFAULT_RETRY_POLICY, ...options.retry };
 		this.client = axios.create({
 			baseURL: options.baseURL,
 			timeout: options.timeoutMs ?? 10_000,
 		});
 	}
 
-	async request<T>(config: AxiosRequestConfig): Promise<T> {
+	async request<T>(config: HttpRequestConfig): Promise<T> {
+		return withCorrelationId((correlationId) => {
+			const call = () => this.requestWithRetry<T>(config, correlationId);
+			return this.circuitBreaker ? this.circuitBreaker.execute(call) : call();
+		});
+	}
+
+	private async requestWithRetry<T>(
+		config: HttpRequestConfig,
+		correlationId: string,
+	): Promise<T> {
+		const { idempotent, ...axiosConfig } = config;
+		const canRepeat = idempotent ?? isIdempotentMethod(axiosConfig.method);
+
+		for (let attempt = 1; ; attempt++) {
+			const trace: RequestStartEvent = {
+				carrier: this.carrier,
+				correlationId,
+				method: (axiosConfig.method ?? "GET").toUpperCase(),
+				url: `${this.baseURL}${axiosConfig.url ?? ""}`,
+				attempt,
+			};
+			try {
+				return await this.send<T>(axiosConfig, trace);
+			} catch (error) {
+				const delay = retryDelayMs(error, attempt, canRepeat, this.retry);
+				if (delay === undefined) throw error;
+				this.telemetry.retrying({ ...trace, delayMs: delay, error });
+				await sleep(delay);
+			}
+		}
+	}
+
+	private async send<T>(
+		config: AxiosRequestConfig,
+		trace: RequestStartEvent,
+	): Promise<T> {
 		const token = await this.auth.accessToken();
 		try {
-			return await this.executeWithToken<T>(config, token);
+			return await this.executeWithToken<T>(config, token, trace);
 		} catch (error) {
 			if (axios.isAxiosError(error) && error.response?.status === 401) {
-				return this.retryWithFreshToken<T>(config);
+				return this.retryWithFreshToken<T>(config, token, trace);
 			}
 			throw this.toStructuredError(error);
 		}
 	}
 
-	private async retryWithFreshToken<T>(config: AxiosRequestConfig): Promise<T> {
-		this.auth.clearToken();
+	private async retryWithFreshToken<T>(
+		config: AxiosRequestConfig,
+		rejectedToken: string,
+		trace: RequestStartEvent,
+	): Promise<T> {
+		this.auth.clearToken(rejectedToken);
 		const freshToken = await this.auth.accessToken();
 		try {
-			return await this.executeWithToken<T>(config, freshToken);
+			return await this.executeWithToken<T>(config, freshToken, trace);
 		} catch (retryError) {
 			if (
 				axios.isAxiosError(retryError) &&
@@ -58,15 +138,32 @@ export class HttpClient {
 	private async executeWithToken<T>(
 		config: AxiosRequestConfig,
 		token: string,
+		trace: RequestStartEvent,
 	): Promise<T> {
-		const response = await this.client.request<T>({
-			...config,
-			headers: { ...config.headers, Authorization: `Bearer ${token}` },
-		});
-		return response.data;
+		const headers = { ...config.headers, Authorization: `Bearer ${token}` };
+		this.telemetry.requestStarted(trace, headers);
+		const startedAt = Date.now();
+		try {
+			const response = await this.client.request<T>({ ...config, headers });
+			this.telemetry.requestEnded({
+				...trace,
+				durationMs: Date.now() - startedAt,
+				status: response.status ?? 200,
+			});
+			return response.data;
+		} catch (error) {
+			const structured = this.toStructuredError(error);
+			this.telemetry.requestEnded({
+				...trace,
+				durationMs: Date.now() - startedAt,
+				status: structured.httpStatus,
+				error: structured,
+			});
+			throw error;
+		}
 	}
 
-	private toStructuredError(error: unknown): Error {
+	private toStructuredError(error: unknown): CarrierApiError {
 		if (!axios.isAxiosError(error)) {
 			const message =
 				error instanceof Error ? error.message : "Unknown HTTP error";
@@ -78,7 +175,11 @@ export class HttpClient {
 		const status = error.response?.status;
 
 		if (status === 429) {
-			return new RateLimitError(undefined, { cause: error });
+			return new RateLimitError(
+				undefined,
+				parseRetryAfter(error.response?.headers?.["retry-after"]),
+				{ cause: error },
+			);
 		}
 		if (status !== undefined) {
 			return new CarrierApiError(`HTTP ${status}`, status, undefined, {
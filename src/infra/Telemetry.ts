@@ -0,0 +1,235 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+import { AppError, CarrierApiError, ValidationError } from "../core/errors.js";
+import type { ILogger, LogFields } from "../core/ILogger.js";
+
+export interface RequestStartEvent {
+	carrier: string;
+	correlationId: string;
+	method: string;
+	url: string;
+	attempt: number;
+}
+
+export interface RequestEndEvent extends RequestStartEvent {
+	durationMs: number;
+	/** HTTP status, or 0 when no response arrived. */
+	status: number;
+	error?: AppError;
+}
+
+export interface RetryEvent extends RequestStartEvent {
+	delayMs: number;
+	error: unknown;
+}
+
+export interface TokenRefreshEvent {
+	carrier: string;
+	correlationId?: string;
+	/** Whether the token came from the shared store or a new OAuth call. */
+	source: "store" | "carrier";
+	durationMs: number;
+	error?: unknown;
+}
+
+export interface TransactionIdEvent {
+	carrier: string;
+	correlationId: string;
+	/** The ID sent to the carrier in place of a correlation ID it would not accept. */
+	transactionId: string;
+}
+
+export interface ValidationFailureEvent {
+	correlationId: string;
+	operation: string;
+	message: string;
+}
+
+/** Lifecycle callbacks for tracing and metrics. A throwing hook never fails the call. */
+export interface TelemetryHooks {
+	onRequestStart?(event: RequestStartEvent): void;
+	onRequestEnd?(event: RequestEndEvent): void;
+	onRetry?(event: RetryEvent): void;
+	onTokenRefresh?(event: TokenRefreshEvent): void;
+	onValidationFailure?(event: ValidationFailureEvent): void;
+}
+
+export interface TelemetryOptions {
+	logger?: ILogger;
+	hooks?: TelemetryHooks;
+}
+
+const noopLogger: ILogger = {
+	debug() {},
+	info() {},
+	warn() {},
+	error() {},
+};
+
+/**
+ * Fans lifecycle events out to the injected logger and hooks. Log fields are
+ * redacted on the way out, so credentials and tokens never reach a log sink.
+ */
+export class Telemetry {
+	private readonly logger: ILogger;
+	private readonly hooks: TelemetryHooks[];
+
+	constructor(options: TelemetryOptions = {}) {
+		this.logger = options.logger ?? noopLogger;
+		this.hooks = options.hooks ? [options.hooks] : [];
+	}
+
+	/** Adds another set of hooks, e.g. a metrics collector next to a tracer. */
+	addHooks(hooks: TelemetryHooks): void {
+		this.hooks.push(hooks);
+	}
+
+	requestStarted(event: RequestStartEvent, headers?: unknown): void {
+		this.log("debug", "http request", { ...event, headers });
+		this.emit((h) => h.onRequestStart?.(event));
+	}
+
+	requestEnded(event: RequestEndEvent): void {
+		const { error, ...fields } = event;
+		if (error) {
+			this.log("warn", "http request failed", {
+				...fields,
+				error: describeError(error),
+			});
+		} else {
+			this.log("debug", "http response", fields);
+		}
+		this.emit((h) => h.onRequestEnd?.(event));
+	}
+
+	retrying(event: RetryEvent): void {
+		const { error, ...fields } = event;
+		this.log("info", "retrying http request", {
+			...fields,
+			error: describeError(error),
+		});
+		this.emit((h) => h.onRetry?.(event));
+	}
+
+	tokenRefreshed(event: TokenRefreshEvent): void {
+		const { error, ...fields } = event;
+		if (error) {
+			this.log("error", "token refresh failed", {
+				...fields,
+				error: describeError(error),
+			});
+		} else {
+			this.log("info", "token refreshed", fields);
+		}
+		this.emit((h) => h.onTokenRefresh?.(event));
+	}
+
+	transactionIdAssigned(event: TransactionIdEvent): void {
+		this.log("info", "carrier transaction id", { ...event });
+	}
+
+	validationFailed(event: ValidationFailureEvent): void {
+		this.log("warn", "validation failed", { ...event });
+		this.emit((h) => h.onValidationFailure?.(event));
+	}
+
+	/**
+	 * Runs one operation call under a correlation ID and reports rejected input.
+	 * The registry's `telemetryMiddleware` wraps every call with this.
+	 */
+	async operation<T>(
+		name: string,
+		fn: (correlationId: string) => Promise<T>,
+	): Promise<T> {
+		return withCorrelationId(async (correlationId) => {
+			try {
+				return await fn(correlationId);
+			} catch (error) {
+				if (error instanceof ValidationError) {
+					this.validationFailed({
+						correlationId,
+						operation: name,
+						message: error.message,
+					});
+				}
+				throw error;
+			}
+		});
+	}
+
+	private log(level: keyof ILogger, message: string, fields: LogFields): void {
+		this.logger[level](message, redact(fields) as LogFields);
+	}
+
+	private emit(call: (hooks: TelemetryHooks) => void): void {
+		for (const hooks of this.hooks) {
+			try {
+				call(hooks);
+			} catch (error) {
+				this.log("warn", "telemetry hook threw", {
+					error: describeError(error),
+				});
+			}
+		}
+	}
+}
+
+const correlation = new AsyncLocalStorage<string>();
+
+export function currentCorrelationId(): string | undefined {
+	return correlation.getStore();
+}
+
+/**
+ * Runs `fn` under the caller's correlation ID, or a new one when the call did
+ * not arrive with one, so every log line and hook event for it shares an ID.
+ */
+export function withCorrelationId<T>(
+	fn: (correlationId: string) => Promise<T>,
+	correlationId = currentCorrelationId() ?? randomUUID(),
+): Promise<T> {
+	return correlation.run(correlationId, () => fn(correlationId));
+}
+
+const SENSITIVE_KEY =
+	/authorization|password|secret|token|credential|api[-_]?key|cookie/i;
+const CREDENTIAL_VALUE = /\b(Bearer|Basic)\s+[A-Za-z0-9\-._~+/]+=*/g;
+
+/** Deep copy of `value` with credential-bearing fields and header values masked. */
+export function redact(value: unknown, depth = 0): unknown {
+	if (typeof value === "string") {
+		return value.replace(CREDENTIAL_VALUE, "$1 [REDACTED]");
+	}
+	if (value === null || typeof value !== "object" || depth > 8) return value;
+	if (Array.isArray(value)) return value.map((v) => redact(v, depth + 1));
+
+	return Object.fromEntries(
+		Object.entries(value).map(([key, v]) => [
+			key,
+			SENSITIVE_KEY.test(key) && v !== undefined
+				? "[REDACTED]"
+				: redact(v, depth + 1),
+		]),
+	);
+}
+
+function describeError(error: unknown): LogFields {
+	if (error instanceof CarrierApiError) {
+		return {
+			name: error.name,
+			code: error.code,
+			message: error.message,
+			httpStatus: error.httpStatus,
+			...(error.carrierCode !== undefined && {
+				carrierCode: error.carrierCode,
+			}),
+		};
+	}
+	if (error instanceof AppError) {
+		return { name: error.name, code: error.code, message: error.message };
+	}
+	return {
+		name: error instanceof Error ? error.name : "Error",
+		message: error instanceof Error ? error.message : String(error),
+	};
+}
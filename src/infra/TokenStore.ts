@@ -0,0 +1,91 @@
+import { randomUUID } from "node:crypto";
+import { readFile, rename, writeFile } from "node:fs/promises";
+import { z } from "zod";
+
+export interface StoredToken {
+	accessToken: string;
+	/** Epoch ms after which the token must not be used. */
+	expiresAt: number;
+}
+
+const StoredTokenSchema = z.object({
+	accessToken: z.string().min(1),
+	expiresAt: z.number(),
+});
+
+/**
+ * Where auth clients keep OAuth tokens. A store shared between processes lets
+ * every worker reuse one token instead of each fetching its own.
+ */
+export interface TokenStore {
+	get(key: string): Promise<StoredToken | undefined>;
+	set(key: string, token: StoredToken): Promise<void>;
+	delete(key: string): Promise<void>;
+}
+
+export class MemoryTokenStore implements TokenStore {
+	private tokens = new Map<string, StoredToken>();
+
+	async get(key: string): Promise<StoredToken | undefined> {
+		return this.tokens.get(key);
+	}
+
+	async set(key: string, token: StoredToken): Promise<void> {
+		this.tokens.set(key, token);
+	}
+
+	async delete(key: string): Promise<void> {
+		this.tokens.delete(key);
+	}
+}
+
+/**
+ * Keeps tokens in a JSON file readable only by the owner. Writes go through a
+ * temporary file and a rename, so a reader in another process never sees a
+ * half-written file.
+ */
+export class FileTokenStore implements TokenStore {
+	constructor(private readonly path: string) {}
+
+	async get(key: string): Promise<StoredToken | undefined> {
+		return (await this.readAll())[key];
+	}
+
+	async set(key: string, token: StoredToken): Promise<void> {
+		const tokens = await this.readAll();
+		tokens[key] = token;
+		await this.writeAll(tokens);
+	}
+
+	async delete(key: string): Promise<void> {
+		const tokens = await this.readAll();
+		if (!(key in tokens)) return;
+		delete tokens[key];
+		await this.writeAll(tokens);
+	}
+
+	private async readAll(): Promise<Record<string, StoredToken>> {
+		let contents: unknown;
+		try {
+			contents = JSON.parse(await readFile(this.path, "utf-8"));
+		} catch {
+			// a missing or corrupt file only costs a fresh token
+			return {};
+		}
+		const entries = z.record(z.string(), z.unknown()).safeParse(contents);
+		if (!entries.success) return {};
+		// so does a hand-edited entry: it reads as a miss and is overwritten
+		return Object.fromEntries(
+			Object.entries(entries.data).flatMap(([key, value]) => {
+				const token = StoredTokenSchema.safeParse(value);
+				return token.success ? [[key, token.data]] : [];
+			}),
+		);
+	}
+
+	private async writeAll(tokens: Record<string, StoredToken>): Promise<void> {
+		const tmp = `${this.path}.${randomUUID()}.tmp`;
+		await writeFile(tmp, JSON.stringify(tokens), { mode: 0o600 });
+		await rename(tmp, this.path);
+	}
+}
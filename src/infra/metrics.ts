@@ -0,0 +1,232 @@
+import type { TelemetryHooks } from "./Telemetry.js";
+
+export type MetricLabels = Record<string, string>;
+export type MetricType = "counter" | "gauge" | "histogram";
+
+export const DEFAULT_LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+abstract class Metric<TSeries> {
+	abstract readonly type: MetricType;
+	protected readonly series = new Map<
+		string,
+		{ labels: MetricLabels; value: TSeries }
+	>();
+
+	constructor(
+		readonly name: string,
+		readonly help: string,
+	) {}
+
+	/** Label sets in first-seen order with their current values. */
+	entries(): { labels: MetricLabels; value: TSeries }[] {
+		return [...this.series.values()];
+	}
+
+	protected upsert(
+		labels: MetricLabels,
+		init: () => TSeries,
+	): { labels: MetricLabels; value: TSeries } {
+		const key = labelKey(labels);
+		let entry = this.series.get(key);
+		if (!entry) {
+			entry = { labels: { ...labels }, value: init() };
+			this.series.set(key, entry);
+		}
+		return entry;
+	}
+}
+
+export class Counter extends Metric<number> {
+	readonly type = "counter";
+
+	inc(labels: MetricLabels = {}, value = 1): void {
+		this.upsert(labels, () => 0).value += value;
+	}
+}
+
+export class Gauge extends Metric<number> {
+	readonly type = "gauge";
+
+	set(labels: MetricLabels, value: number): void {
+		this.upsert(labels, () => 0).value = value;
+	}
+}
+
+export interface HistogramSeries {
+	/** Cumulative count per bucket, aligned with `buckets`. */
+	counts: number[];
+	sum: number;
+	count: number;
+}
+
+export class Histogram extends Metric<HistogramSeries> {
+	readonly type = "histogram";
+
+	constructor(
+		name: string,
+		help: string,
+		readonly buckets: number[] = DEFAULT_LATENCY_BUCKETS,
+	) {
+		super(name, help);
+	}
+
+	observe(labels: MetricLabels, value: number): void {
+		const series = this.upsert(labels, () => ({
+			counts: this.buckets.map(() => 0),
+			sum: 0,
+			count: 0,
+		})).value;
+		this.buckets.forEach((upperBound, i) => {
+			if (value <= upperBound) series.counts[i] = (series.counts[i] ?? 0) + 1;
+		});
+		series.sum += value;
+		series.count += 1;
+	}
+}
+
+export type AnyMetric = Counter | Gauge | Histogram;
+
+/** Holds every metric by name; asking for an existing name returns the same metric. */
+export class MetricsRegistry {
+	private readonly metrics = new Map<string, AnyMetric>();
+
+	counter(name: string, help: string): Counter {
+		return this.getOrCreate(name, "counter", () => new Counter(name, help));
+	}
+
+	gauge(name: string, help: string): Gauge {
+		return this.getOrCreate(name, "gauge", () => new Gauge(name, help));
+	}
+
+	histogram(name: string, help: string, buckets?: number[]): Histogram {
+		return this.getOrCreate(
+			name,
+			"histogram",
+			() => new Histogram(name, help, buckets),
+		);
+	}
+
+	list(): AnyMetric[] {
+		return [...this.metrics.values()];
+	}
+
+	private getOrCreate<T extends AnyMetric>(
+		name: string,
+		type: T["type"],
+		create: () => T,
+	): T {
+		const existing = this.metrics.get(name);
+		if (existing) {
+			if (existing.type !== type) {
+				throw new Error(
+					`Metric "${name}" is already registered as a ${existing.type}`,
+				);
+			}
+			return existing as T;
+		}
+		const metric = create();
+		this.metrics.set(name, metric);
+		return metric;
+	}
+}
+
+/** Renders every metric in the Prometheus text exposition format (version 0.0.4). */
+export function renderPrometheus(registry: MetricsRegistry): string {
+	const lines: string[] = [];
+	for (const metric of registry.list()) {
+		lines.push(`# HELP ${metric.name} ${escapeHelp(metric.help)}`);
+		lines.push(`# TYPE ${metric.name} ${metric.type}`);
+
+		if (metric instanceof Histogram) {
+			for (const { labels, value } of metric.entries()) {
+				metric.buckets.forEach((upperBound, i) => {
+					lines.push(
+						`${metric.name}_bucket${formatLabels({ ...labels, le: String(upperBound) })} ${value.counts[i] ?? 0}`,
+					);
+				});
+				lines.push(
+					`${metric.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${value.count}`,
+				);
+				lines.push(`${metric.name}_sum${formatLabels(labels)} ${value.sum}`);
+				lines.push(
+					`${metric.name}_count${formatLabels(labels)} ${value.count}`,
+				);
+			}
+		} else {
+			for (const { labels, value } of metric.entries()) {
+				lines.push(`${metric.name}${formatLabels(labels)} ${value}`);
+			}
+		}
+	}
+	return lines.length ? `${lines.join("\n")}\n` : "";
+}
+
+/** Telemetry hooks that record HTTP latency, retries and token refreshes. */
+export function metricsHooks(registry: MetricsRegistry): TelemetryHooks {
+	const httpDuration = registry.histogram(
+		"carrier_http_request_duration_seconds",
+		"Latency of HTTP calls to carrier APIs",
+	);
+	const httpErrors = registry.counter(
+		"carrier_http_errors_total",
+		"Failed HTTP calls to carrier APIs by error code",
+	);
+	const retries = registry.counter(
+		"carrier_http_retries_total",
+		"HTTP calls to carrier APIs that were retried",
+	);
+	const tokenRefreshes = registry.counter(
+		"carrier_token_refreshes_total",
+		"OAuth token refreshes by source and outcome",
+	);
+
+	return {
+		onRequestEnd(event) {
+			httpDuration.observe(
+				{
+					carrier: event.carrier,
+					method: event.method,
+					status: String(event.status),
+				},
+				event.durationMs / 1000,
+			);
+			if (event.error) {
+				httpErrors.inc({ carrier: event.carrier, code: event.error.code });
+			}
+		},
+		onRetry(event) {
+			retries.inc({ carrier: event.carrier });
+		},
+		onTokenRefresh(event) {
+			tokenRefreshes.inc({
+				carrier: event.carrier,
+				source: event.source,
+				outcome: event.error === undefined ? "success" : "failure",
+			});
+		},
+	};
+}
+
+function labelKey(labels: MetricLabels): string {
+	return JSON.stringify(
+		Object.entries(labels).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+	);
+}
+
+function formatLabels(labels: MetricLabels): string {
+	const pairs = Object.entries(labels).map(
+		([key, value]) => `${key}="${escapeLabelValue(value)}"`,
+	);
+	return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+function escapeLabelValue(value: string): string {
+	return value
+		.replace(/\\/g, "\\\\")
+		.replace(/"/g, '\\"')
+		.replace(/\n/g, "\\n");
+}
+
+function escapeHelp(help: string): string {
+	return help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+}
@@ -0,0 +1,84 @@
+import axios from "axios";
+import { CarrierApiError, RateLimitError } from "../core/errors.js";
+
+export interface RetryPolicy {
+	/** Total attempts including the first one; 1 disables retries. */
+	maxAttempts: number;
+	baseDelayMs: number;
+	maxDelayMs: number;
+	/** Full jitter: each delay is drawn uniformly from 0 up to the backoff. */
+	jitter: boolean;
+	retryableStatuses: number[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	maxAttempts: 3,
+	baseDelayMs: 200,
+	maxDelayMs: 5_000,
+	jitter: true,
+	retryableStatuses: [408, 429, 500, 502, 503, 504],
+};
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+export function isIdempotentMethod(method = "GET"): boolean {
+	return IDEMPOTENT_METHODS.has(method.toUpperCase());
+}
+
+/**
+ * How long to wait before the next attempt, or `undefined` when the error
+ * should reach the caller. A 429 means the carrier rejected the call without
+ * processing it, so it is retried even for non-idempotent requests; any other
+ * failure may have reached the carrier and is only retried when repeating the
+ * call is safe.
+ */
+export function retryDelayMs(
+	error: unknown,
+	attempt: number,
+	idempotent: boolean,
+	policy: RetryPolicy,
+): number | undefined {
+	if (attempt >= policy.maxAttempts) return undefined;
+
+	if (error instanceof RateLimitError) {
+		if (!policy.retryableStatuses.includes(429)) return undefined;
+		if (error.retryAfterMs !== undefined) {
+			// waiting longer than the policy allows is the caller's decision
+			return error.retryAfterMs <= policy.maxDelayMs
+				? error.retryAfterMs
+				: undefined;
+		}
+		return backoffMs(attempt, policy);
+	}
+
+	if (!idempotent || !(error instanceof CarrierApiError)) return undefined;
+
+	const isNetworkError =
+		error.httpStatus === 0 && axios.isAxiosError(error.cause);
+	if (isNetworkError || policy.retryableStatuses.includes(error.httpStatus)) {
+		return backoffMs(attempt, policy);
+	}
+	return undefined;
+}
+
+/** Parses a `Retry-After` header given either in seconds or as an HTTP date. */
+export function parseRetryAfter(value: unknown): number | undefined {
+	if (typeof value !== "string" || value.trim() === "") return undefined;
+	if (/^\d+$/.test(value.trim())) return Number(value) * 1000;
+
+	const date = Date.parse(value);
+	if (Number.isNaN(date)) return undefined;
+	return Math.max(0, date - Date.now());
+}
+
+export function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function backoffMs(attempt: number, policy: RetryPolicy): number {
+	const exponential = Math.min(
+		policy.maxDelayMs,
+		policy.baseDelayMs * 2 ** (attempt - 1),
+	);
+	return policy.jitter ? Math.round(Math.random() * exponential) : exponential;
+}
@@ -0,0 +1,40 @@
+import { registerCarriers } from "./carriers/registerCarriers.js";
+import { loadConfig } from "./config.js";
+import type { ILogger, LogFields } from "./core/ILogger.js";
+import { CircuitBreakerRegistry } from "./infra/CircuitBreaker.js";
+import { MetricsRegistry, metricsHooks } from "./infra/metrics.js";
+import { Telemetry } from "./infra/Telemetry.js";
+import { OperationRegistry } from "./registry/OperationRegistry.js";
+import { createApiServer } from "./server/ApiServer.js";
+
+/** One JSON object per line on stdout, for the platform's log collector. */
+const logger: ILogger = {
+	debug() {},
+	info: (message, fields) => write("info", message, fields),
+	warn: (message, fields) => write("warn", message, fields),
+	error: (message, fields) => write("error", message, fields),
+};
+
+function write(level: string, message: string, fields?: LogFields): void {
+	console.log(JSON.stringify({ level, message, ...fields }));
+}
+
+const config = loadConfig();
+const metrics = new MetricsRegistry();
+const breakers = new CircuitBreakerRegistry();
+const telemetry = new Telemetry({ logger, hooks: metricsHooks(metrics) });
+const registry = new OperationRegistry({ metrics });
+
+registerCarriers(registry, config, { breakers, telemetry });
+
+const server = createApiServer({ registry, breakers, metrics, logger });
+server.listen(config.server.port, () => {
+	logger.info("listening", {
+		port: config.server.port,
+		carriers: registry.carriers(),
+	});
+});
+
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+	process.once(signal, () => server.close(() => process.exit(0)));
+}
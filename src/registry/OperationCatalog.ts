@@ -0,0 +1,90 @@
+import { z } from "zod";
+import type { ICarrierOperation } from "../core/ICarrierOperation.js";
+import {
+	type Address,
+	AddressSchema,
+	type AddressValidationResult,
+	AddressValidationResultSchema,
+	type LandedCostQuote,
+	LandedCostQuoteSchema,
+	type LandedCostRequest,
+	LandedCostRequestSchema,
+	type RateQuote,
+	RateQuoteSchema,
+	type RateRequest,
+	RateRequestSchema,
+	type ShipmentRequest,
+	ShipmentRequestSchema,
+	type ShipmentResult,
+	ShipmentResultSchema,
+	type TrackingRequest,
+	TrackingRequestSchema,
+	type TrackingResult,
+	TrackingResultSchema,
+	type VoidShipmentRequest,
+	VoidShipmentRequestSchema,
+	type VoidShipmentResult,
+	VoidShipmentResultSchema,
+} from "../core/types.js";
+
+/**
+ * Every operation a carrier can offer, with its domain input and output.
+ * Registry keys are `<carrier>:<operation>`, and the operation half decides
+ * the signature a registered implementation must have.
+ */
+export interface OperationCatalog {
+	rating: { input: RateRequest; output: RateQuote[] };
+	label: { input: ShipmentRequest; output: ShipmentResult };
+	void: { input: VoidShipmentRequest; output: VoidShipmentResult };
+	tracking: { input: TrackingRequest; output: TrackingResult };
+	"address-validation": { input: Address; output: AddressValidationResult };
+	"landed-cost": { input: LandedCostRequest; output: LandedCostQuote };
+}
+
+export type OperationName = keyof OperationCatalog;
+
+export type OperationKey<N extends OperationName = OperationName> =
+	`${string}:${N}`;
+
+/** The operation half of a registry key, e.g. `"rating"` for `"ups:rating"`. */
+export type OperationOf<K extends OperationKey> =
+	K extends `${string}:${infer N extends OperationName}` ? N : never;
+
+export type OperationInput<N extends OperationName> =
+	OperationCatalog[N]["input"];
+
+export type OperationOutput<N extends OperationName> =
+	OperationCatalog[N]["output"];
+
+export type OperationFor<N extends OperationName> = ICarrierOperation<
+	OperationInput<N>,
+	OperationOutput<N>
+>;
+
+/** Input schemas the registry checks every call against, before the carrier sees it. */
+export const OPERATION_INPUT_SCHEMAS: {
+	[N in OperationName]: z.ZodType<OperationInput<N>>;
+} = {
+	rating: RateRequestSchema,
+	label: ShipmentRequestSchema,
+	void: VoidShipmentRequestSchema,
+	tracking: TrackingRequestSchema,
+	"address-validation": AddressSchema,
+	"landed-cost": LandedCostRequestSchema,
+};
+
+/** Domain schemas every adapter's result is checked against before it reaches the caller. */
+export const OPERATION_OUTPUT_SCHEMAS: {
+	[N in OperationName]: z.ZodType<OperationOutput<N>>;
+} = {
+	rating: z.array(RateQuoteSchema),
+	label: ShipmentResultSchema,
+	void: VoidShipmentResultSchema,
+	tracking: TrackingResultSchema,
+	"address-validation": AddressValidationResultSchema,
+	"landed-cost": LandedCostQuoteSchema,
+};
+
+export function isOperationName(name: string): name is OperationName {
+	return Object.hasOwn(OPERATION_INPUT_SCHEMAS, name);
+}
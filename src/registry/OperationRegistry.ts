@@ -1,18 +1,137 @@
-import { OperationNotFoundError } from "../core/errors.js";
+import {
+	DuplicateOperationError,
+	OperationNotFoundError,
+	ValidationError,
+} from "../core/errors.js";
 import type { ICarrierOperation } from "../core/ICarrierOperation.js";
+import type { MetricsRegistry } from "../infra/metrics.js";
+import { withCorrelationId } from "../infra/Telemetry.js";
+import {
+	metricsMiddleware,
+	type OperationMiddleware,
+	runMiddleware,
+	validationMiddleware,
+} from "./middleware.js";
+import {
+	isOperationName,
+	type OperationFor,
+	type OperationKey,
+	type OperationName,
+	type OperationOf,
+} from "./OperationCatalog.js";
 
+export interface OperationRegistryOptions {
+	/** When set, every registered operation reports latency and errors into it. */
+	metrics?: MetricsRegistry;
+	/** Global middleware, run around every operation in order. */
+	middleware?: OperationMiddleware[];
+}
+
+export interface RegisterOptions {
+	/** Middleware for this key only, run inside the global middleware. */
+	middleware?: OperationMiddleware[];
+}
+
+interface Registration {
+	carrier: string;
+	operation: OperationName;
+	handler: ICarrierOperation<unknown, unknown>;
+}
+
+const validate = validationMiddleware();
+
+/**
+ * Carrier operations keyed `<carrier>:<operation>`. The operation half must be
+ * in the `OperationCatalog`, which fixes the implementation's signature at
+ * compile time.
+ *
+ * Each call runs under a correlation ID through the global middleware, then
+ * the key's own middleware, then schema validation right around the
+ * operation, so operations only hold carrier mapping logic.
+ */
 export class OperationRegistry {
-	private operations = new Map<string, ICarrierOperation<unknown, unknown>>();
+	private registrations = new Map<string, Registration>();
+	private readonly middleware: OperationMiddleware[];
+
+	constructor(options: OperationRegistryOptions = {}) {
+		this.middleware = [
+			...(options.metrics ? [metricsMiddleware(options.metrics)] : []),
+			...(options.middleware ?? []),
+		];
+	}
+
+	/** Appends global middleware; it applies to operations already registered too. */
+	use(...middleware: OperationMiddleware[]): void {
+		this.middleware.push(...middleware);
+	}
+
+	register<K extends OperationKey>(
+		key: K,
+		operation: OperationFor<OperationOf<K>>,
+		options: RegisterOptions = {},
+	): void {
+		if (this.registrations.has(key)) {
+			throw new DuplicateOperationError(key);
+		}
+		const { carrier, name } = parseKey(key);
+		const own = options.middleware ?? [];
 
-	register(key: string, operation: ICarrierOperation<unknown, unknown>): void {
-		this.operations.set(key, operation);
+		const handler: ICarrierOperation<unknown, unknown> = {
+			execute: (input) =>
+				withCorrelationId((correlationId) =>
+					runMiddleware(
+						[...this.middleware, ...own, validate],
+						{ key, carrier, operation: name, correlationId },
+						operation as ICarrierOperation<unknown, unknown>,
+						input,
+					),
+				),
+		};
+		this.registrations.set(key, { carrier, operation: name, handler });
 	}
 
-	resolve<TInput, TOutput>(key: string): ICarrierOperation<TInput, TOutput> {
-		const operation = this.operations.get(key);
-		if (!operation) {
+	resolve<K extends OperationKey>(key: K): OperationFor<OperationOf<K>> {
+		const registration = this.registrations.get(key);
+		if (!registration) {
 			throw new OperationNotFoundError(key);
 		}
-		return operation as ICarrierOperation<TInput, TOutput>;
+		return registration.handler as OperationFor<OperationOf<K>>;
+	}
+
+	has(key: string): boolean {
+		return this.registrations.has(key);
+	}
+
+	keys(): OperationKey[] {
+		return [...this.registrations.keys()] as OperationKey[];
+	}
+
+	/** Carriers in registration order, optionally only those offering `operation`. */
+	carriers(operation?: OperationName): string[] {
+		const carriers = new Set<string>();
+		for (const registration of this.registrations.values()) {
+			if (operation === undefined || registration.operation === operation) {
+				carriers.add(registration.carrier);
+			}
+		}
+		return [...carriers];
+	}
+
+	operations(carrier: string): OperationName[] {
+		return [...this.registrations.values()]
+			.filter((registration) => registration.carrier === carrier)
+			.map((registration) => registration.operation);
+	}
+}
+
+function parseKey(key: string): { carrier: string; name: OperationName } {
+	const separator = key.indexOf(":");
+	const carrier = key.slice(0, separator);
+	const name = key.slice(separator + 1);
+	if (separator <= 0 || !isOperationName(name)) {
+		throw new ValidationError(
+			`"${key}" is not a <carrier>:<operation> key for a catalog operation`,
+		);
 	}
+	return { carrier, name };
 }
@@ -0,0 +1,70 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { AccountNotFoundError } from "../core/errors.js";
+import type { ICarrierOperation } from "../core/ICarrierOperation.js";
+
+const account = new AsyncLocalStorage<string | undefined>();
+
+/**
+ * The carrier account selected around the current call; `undefined` means the
+ * default one. Requests name theirs with `accountId`, which wins over this.
+ */
+export function currentAccountId(): string | undefined {
+	return account.getStore();
+}
+
+/**
+ * Runs `fn` with `accountId` selected, so every registry call inside it,
+ * including the parallel ones a `RateShopper` makes, uses that account. It
+ * also covers inputs with no `accountId` field, like address validation's
+ * bare `Address`, and lets a server select the account once per HTTP call.
+ */
+export function withAccountId<T>(
+	accountId: string | undefined,
+	fn: () => Promise<T>,
+): Promise<T> {
+	return account.run(accountId, fn);
+}
+
+/**
+ * Hands each call to the operation built for its account: the input's
+ * `accountId` when it has one, else the ambient `currentAccountId()`. Each
+ * account has its own credentials, token cache and `HttpClient`. Carriers
+ * register one of these per key even with a single account, so selecting an
+ * account they do not have fails instead of quietly billing the default one.
+ */
+export class AccountRoutedOperation<TInput, TOutput>
+	implements ICarrierOperation<TInput, TOutput>
+{
+	constructor(
+		private readonly name: string,
+		private readonly defaultOperation:
+			| ICarrierOperation<TInput, TOutput>
+			| undefined,
+		private readonly accounts: ReadonlyMap<
+			string,
+			ICarrierOperation<TInput, TOutput>
+		> = new Map(),
+	) {}
+
+	async execute(input: TInput): Promise<TOutput> {
+		const accountId = requestedAccountId(input) ?? currentAccountId();
+		const operation =
+			accountId === undefined
+				? this.defaultOperation
+				: this.accounts.get(accountId);
+		if (!operation) {
+			throw new AccountNotFoundError(this.name, accountId);
+		}
+		// nested calls, like landed cost rating the shipment, stay on this account
+		return withAccountId(accountId, () => operation.execute(input));
+	}
+}
+
+function requestedAccountId(input: unknown): string | undefined {
+	return typeof input === "object" &&
+		input !== null &&
+		"accountId" in input &&
+		typeof input.accountId === "string"
+		? input.accountId
+		: undefined;
+}
@@ -0,0 +1,134 @@
+import { AppError, CarrierApiError, ValidationError } from "../core/errors.js";
+import type { ICarrierOperation } from "../core/ICarrierOperation.js";
+import type { MetricsRegistry } from "../infra/metrics.js";
+import type { Telemetry } from "../infra/Telemetry.js";
+import {
+	OPERATION_INPUT_SCHEMAS,
+	OPERATION_OUTPUT_SCHEMAS,
+	type OperationKey,
+	type OperationName,
+} from "./OperationCatalog.js";
+
+export interface OperationContext {
+	key: OperationKey;
+	carrier: string;
+	operation: OperationName;
+	correlationId: string;
+}
+
+export type NextOperation = (input: unknown) => Promise<unknown>;
+
+/**
+ * Wraps one operation call. Call `next` to continue down the chain (with the
+ * same or a replaced input), or return or throw without it to short-circuit.
+ */
+export type OperationMiddleware = (
+	input: unknown,
+	context: OperationContext,
+	next: NextOperation,
+) => Promise<unknown>;
+
+/** Runs `input` through `middleware` in order, with `operation` at the centre. */
+export function runMiddleware(
+	middleware: readonly OperationMiddleware[],
+	context: OperationContext,
+	operation: ICarrierOperation<unknown, unknown>,
+	input: unknown,
+): Promise<unknown> {
+	const dispatch = async (index: number, value: unknown): Promise<unknown> => {
+		const current = middleware[index];
+		return current
+			? current(value, context, (next) => dispatch(index + 1, next))
+			: operation.execute(value);
+	};
+	return dispatch(0, input);
+}
+
+/**
+ * Checks input against the catalog schema before the carrier sees it, and
+ * the adapter's result against the domain schema before the caller does.
+ */
+export function validationMiddleware(): OperationMiddleware {
+	return async (input, context, next) => {
+		const parsedInput =
+			OPERATION_INPUT_SCHEMAS[context.operation].safeParse(input);
+		if (!parsedInput.success) {
+			throw new ValidationError(parsedInput.error.message);
+		}
+
+		const output = await next(parsedInput.data);
+
+		const parsedOutput =
+			OPERATION_OUTPUT_SCHEMAS[context.operation].safeParse(output);
+		if (!parsedOutput.success) {
+			throw new CarrierApiError(
+				`${context.key} returned an invalid result: ${parsedOutput.error.message}`,
+				0,
+			);
+		}
+		return parsedOutput.data;
+	};
+}
+
+/** Fails the call with a `CarrierApiError` when it takes longer than `timeoutMs`. */
+export function timeoutMiddleware(timeoutMs: number): OperationMiddleware {
+	return async (input, context, next) => {
+		let timer: NodeJS.Timeout | undefined;
+		const timeout = new Promise<never>((_, reject) => {
+			timer = setTimeout(
+				() =>
+					reject(
+						new CarrierApiError(
+							`${context.key} timed out after ${timeoutMs}ms`,
+							0,
+						),
+					),
+				timeoutMs,
+			);
+		});
+
+		try {
+			return await Promise.race([next(input), timeout]);
+		} finally {
+			clearTimeout(timer);
+		}
+	};
+}
+
+/** Reports rejected input for the call to the carrier's telemetry. */
+export function telemetryMiddleware(telemetry: Telemetry): OperationMiddleware {
+	return (input, context, next) =>
+		telemetry.operation(context.key, () => next(input));
+}
+
+/** Records per-carrier, per-operation latency and errors by `AppError.code`. */
+export function metricsMiddleware(
+	metrics: MetricsRegistry,
+): OperationMiddleware {
+	const duration = metrics.histogram(
+		"carrier_operation_duration_seconds",
+		"Latency of carrier operations, including retries",
+	);
+	const errors = metrics.counter(
+		"carrier_operation_errors_total",
+		"Failed carrier operations by error code",
+	);
+
+	return async (input, context, next) => {
+		const labels = { carrier: context.carrier, operation: context.operation };
+		const startedAt = Date.now();
+		let outcome = "success";
+		try {
+			return await next(input);
+		} catch (error) {
+			outcome = "error";
+			errors.inc({
+				...labels,
+				code: error instanceof AppError ? error.code : "UNKNOWN",
+			});
+			throw error;
+		} finally {
+			duration.observe({ ...labels, outcome }, (Date.now() - startedAt) / 1000);
+		}
+	};
+}
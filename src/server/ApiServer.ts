@@ -0,0 +1,283 @@
+import {
+	createServer,
+	type IncomingMessage,
+	type Server,
+	type ServerResponse,
+} from "node:http";
+import { z } from "zod";
+import {
+	AccountNotFoundError,
+	AppError,
+	AuthenticationError,
+	CarrierApiError,
+	CarrierUnavailableError,
+	OperationNotFoundError,
+	RateLimitError,
+	ShipmentInTransitError,
+	ValidationError,
+} from "../core/errors.js";
+import type { ILogger } from "../core/ILogger.js";
+import { AccountIdSchema, RateRequestSchema } from "../core/types.js";
+import type { CircuitBreakerRegistry } from "../infra/CircuitBreaker.js";
+import { type MetricsRegistry, renderPrometheus } from "../infra/metrics.js";
+import { withCorrelationId } from "../infra/Telemetry.js";
+import { withAccountId } from "../registry/accounts.js";
+import type { OperationRegistry } from "../registry/OperationRegistry.js";
+import {
+	RateShopper,
+	type RateShopperOptions,
+} from "../services/RateShopper.js";
+
+export interface ApiServerOptions {
+	registry: OperationRegistry;
+	shopper?: RateShopperOptions;
+	/** Adds circuit state per carrier to `GET /health`. */
+	breakers?: CircuitBreakerRegistry;
+	/** Serves `GET /metrics` in the Prometheus text format. */
+	metrics?: MetricsRegistry;
+	/** Receives unexpected errors; their details never reach the client. */
+	logger?: ILogger;
+	/** Largest accepted request body in bytes. */
+	maxBodyBytes?: number;
+}
+
+export interface ErrorResponse {
+	status: number;
+	headers: Record<string, string>;
+	body: { error: { code: string; message: string; carrierCode?: string } };
+}
+
+const SortBySchema = z.enum(["cheapest", "fastest", "best-value"]);
+
+const CARRIER_RATES_PATH = /^\/v1\/rates\/([a-z0-9-]+)$/;
+
+// carriers receive this as a reference field, so keep it short and printable
+const CORRELATION_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Serves the registry over HTTP with `node:http`:
+ *
+ * - `POST /v1/rates` shops every carrier, optionally `?sortBy=fastest`
+ * - `POST /v1/rates/:carrier` rates with one carrier
+ * - `GET /v1/carriers` lists carriers and their operations
+ * - `GET /health` and, when `metrics` is set, `GET /metrics`
+ *
+ * Every response carries an `X-Correlation-Id`, taken from the request when
+ * it sent one, and errors use the `errorResponse()` envelope. An
+ * `X-Account-Id` header selects the carrier account for bodies that do not
+ * name one in `accountId`.
+ */
+export function createApiServer(options: ApiServerOptions): Server {
+	const shopper = new RateShopper(options.registry, options.shopper);
+	const maxBodyBytes = options.maxBodyBytes ?? 1024 * 1024;
+
+	async function route(req: IncomingMessage, res: ServerResponse) {
+		const url = new URL(req.url ?? "/", "http://localhost");
+		const path = url.pathname;
+
+		if (path === "/health") {
+			if (req.method !== "GET") return methodNotAllowed(res, "GET");
+			return sendJson(res, 200, {
+				status: "ok",
+				...(options.breakers && { circuits: options.breakers.snapshots() }),
+			});
+		}
+
+		if (path === "/metrics" && options.metrics) {
+			if (req.method !== "GET") return methodNotAllowed(res, "GET");
+			res.writeHead(200, {
+				"Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+			});
+			res.end(renderPrometheus(options.metrics));
+			return;
+		}
+
+		if (path === "/v1/carriers") {
+			if (req.method !== "GET") return methodNotAllowed(res, "GET");
+			const carriers = options.registry.carriers().map((carrier) => ({
+				carrier,
+				operations: options.registry.operations(carrier),
+			}));
+			return sendJson(res, 200, { carriers });
+		}
+
+		if (path === "/v1/rates") {
+			if (req.method !== "POST") return methodNotAllowed(res, "POST");
+			const sortBy = parse(
+				SortBySchema.optional(),
+				url.searchParams.get("sortBy") ?? undefined,
+			);
+			const request = parse(
+				RateRequestSchema,
+				await readJson(req, maxBodyBytes),
+			);
+			const result = await shopper.shop(request, sortBy);
+			return sendJson(res, 200, {
+				quotes: result.quotes,
+				errors: result.errors.map(({ carrier, error }) => ({
+					carrier,
+					...errorResponse(error).body.error,
+				})),
+			});
+		}
+
+		const carrierRates = CARRIER_RATES_PATH.exec(path);
+		if (carrierRates) {
+			if (req.method !== "POST") return methodNotAllowed(res, "POST");
+			const key = `${carrierRates[1]}:rating` as const;
+			const request = parse(
+				RateRequestSchema,
+				await readJson(req, maxBodyBytes),
+			);
+			const quotes = await options.registry.resolve(key).execute(request);
+			return sendJson(res, 200, { quotes });
+		}
+
+		sendJson(res, 404, {
+			error: { code: "ROUTE_NOT_FOUND", message: `No route for ${path}` },
+		});
+	}
+
+	return createServer((req, res) => {
+		const inbound = req.headers["x-correlation-id"];
+		void withCorrelationId(
+			async (correlationId) => {
+				res.setHeader("X-Correlation-Id", correlationId);
+				try {
+					await withAccountId(accountIdOf(req), () => route(req, res));
+				} catch (error) {
+					if (!(error instanceof AppError)) {
+						options.logger?.error("unhandled api error", {
+							correlationId,
+							error: error instanceof Error ? error.message : String(error),
+						});
+					}
+					const { status, headers, body } = errorResponse(error);
+					sendJson(res, status, body, headers);
+				}
+			},
+			typeof inbound === "string" && CORRELATION_ID.test(inbound)
+				? inbound
+				: undefined,
+		);
+	});
+}
+
+function accountIdOf(req: IncomingMessage): string | undefined {
+	const accountId = req.headers["x-account-id"];
+	if (accountId === undefined) return undefined;
+	if (
+		typeof accountId !== "string" ||
+		!AccountIdSchema.safeParse(accountId).success
+	) {
+		throw new ValidationError("X-Account-Id is not a valid account ID");
+	}
+	return accountId;
+}
+
+/**
+ * Maps an error to its HTTP status and JSON envelope. Errors that are not an
+ * `AppError` become an opaque 500.
+ */
+export function errorResponse(error: unknown): ErrorResponse {
+	if (!(error instanceof AppError)) {
+		return {
+			status: 500,
+			headers: {},
+			body: {
+				error: { code: "INTERNAL_ERROR", message: "Internal server error" },
+			},
+		};
+	}
+
+	const headers: Record<string, string> = {};
+	const retryAfterMs =
+		error instanceof RateLimitError || error instanceof CarrierUnavailableError
+			? error.retryAfterMs
+			: undefined;
+	if (retryAfterMs !== undefined) {
+		headers["Retry-After"] = String(Math.ceil(retryAfterMs / 1000));
+	}
+
+	return {
+		status: statusFor(error),
+		headers,
+		body: {
+			error: {
+				code: error.code,
+				message: error.message,
+				...(error instanceof CarrierApiError &&
+					error.carrierCode !== undefined && {
+						carrierCode: error.carrierCode,
+					}),
+			},
+		},
+	};
+}
+
+function statusFor(error: AppError): number {
+	// subclasses before their parents: RateLimitError is a CarrierApiError
+	if (error instanceof ValidationError) return 400;
+	if (error instanceof OperationNotFoundError) return 404;
+	if (error instanceof AccountNotFoundError) return 404;
+	if (error instanceof ShipmentInTransitError) return 409;
+	if (error instanceof RateLimitError) return 429;
+	if (error instanceof CarrierUnavailableError) return 503;
+	// a rejected carrier login is our upstream's failure, not the caller's
+	if (error instanceof AuthenticationError || error instanceof CarrierApiError)
+		return 502;
+	return 500;
+}
+
+function parse<T>(schema: z.ZodType<T>, value: unknown): T {
+	const parsed = schema.safeParse(value);
+	if (!parsed.success) {
+		throw new ValidationError(parsed.error.message);
+	}
+	return parsed.data;
+}
+
+async function readJson(
+	req: IncomingMessage,
+	maxBodyBytes: number,
+): Promise<unknown> {
+	const chunks: Buffer[] = [];
+	let size = 0;
+	for await (const chunk of req) {
+		size += (chunk as Buffer).length;
+		if (size > maxBodyBytes) {
+			throw new ValidationError(`Request body exceeds ${maxBodyBytes} bytes`);
+		}
+		chunks.push(chunk as Buffer);
+	}
+
+	try {
+		return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+	} catch (error) {
+		throw new ValidationError("Request body is not valid JSON", {
+			cause: error,
+		});
+	}
+}
+
+function methodNotAllowed(res: ServerResponse, allow: string): void {
+	sendJson(
+		res,
+		405,
+		{ error: { code: "METHOD_NOT_ALLOWED", message: `Use ${allow}` } },
+		{ Allow: allow },
+	);
+}
+
+function sendJson(
+	res: ServerResponse,
+	status: number,
+	body: unknown,
+	headers: Record<string, string> = {},
+): void {
+	res.writeHead(status, {
+		...headers,
+		"Content-Type": "application/json; charset=utf-8",
+	});
+	res.end(JSON.stringify(body));
+}
@@ -0,0 +1,159 @@
+import { createHash } from "node:crypto";
+import type { ICarrierOperation } from "../core/ICarrierOperation.js";
+import type { Address, RateQuote, RateRequest } from "../core/types.js";
+import { type CacheStore, LruCacheStore } from "../infra/CacheStore.js";
+import type { Counter, Gauge, MetricsRegistry } from "../infra/metrics.js";
+import { currentAccountId } from "../registry/accounts.js";
+
+export interface CachedRatingOptions {
+	ttlMs?: number;
+	store?: CacheStore<RateQuote[]>;
+	/** Keeps keys apart when several operations share one store, e.g. "ups:rating". */
+	namespace?: string;
+	/** Reports lookups and the running hit ratio, labelled by namespace. */
+	metrics?: MetricsRegistry;
+}
+
+export interface RateCacheStats {
+	hits: number;
+	misses: number;
+	/** Calls that joined an identical request already in flight. */
+	coalesced: number;
+}
+
+const LOOKUP_RESULT: Record<keyof RateCacheStats, string> = {
+	hits: "hit",
+	misses: "miss",
+	coalesced: "coalesced",
+};
+
+/**
+ * Caches quotes from any rating operation. Requests that differ only in address
+ * casing, whitespace or package order share an entry, identical requests that
+ * arrive together make a single carrier call, and failures are never cached.
+ * Input is trusted: the registry validates it before this wrapper sees it.
+ */
+export class CachedRatingOperation
+	implements ICarrierOperation<RateRequest, RateQuote[]>
+{
+	private readonly ttlMs: number;
+	private readonly store: CacheStore<RateQuote[]>;
+	private readonly namespace: string;
+	private readonly inFlight = new Map<string, Promise<RateQuote[]>>();
+	private readonly counters: RateCacheStats = {
+		hits: 0,
+		misses: 0,
+		coalesced: 0,
+	};
+	private readonly lookups: Counter | undefined;
+	private readonly hitRatio: Gauge | undefined;
+
+	constructor(
+		private readonly inner: ICarrierOperation<RateRequest, RateQuote[]>,
+		options: CachedRatingOptions = {},
+	) {
+		this.ttlMs = options.ttlMs ?? 60_000;
+		this.store = options.store ?? new LruCacheStore();
+		this.namespace = options.namespace ?? "rating";
+		this.lookups = options.metrics?.counter(
+			"rate_cache_lookups_total",
+			"Rate cache lookups by result (hit, miss or coalesced)",
+		);
+		this.hitRatio = options.metrics?.gauge(
+			"rate_cache_hit_ratio",
+			"Share of rate lookups answered without a carrier call",
+		);
+	}
+
+	async execute(input: RateRequest): Promise<RateQuote[]> {
+		// accounts can have different negotiated rates, so they never share entries
+		const accountId = currentAccountId();
+		const scope =
+			accountId === undefined
+				? this.namespace
+				: `${this.namespace}@${accountId}`;
+		const key = `${scope}:${rateCacheKey(input)}`;
+
+		const pending = this.inFlight.get(key);
+		if (pending) {
+			this.count("coalesced");
+			return structuredClone(await pending);
+		}
+
+		// registered before the first await so concurrent callers find it
+		const call = this.lookup(key, input);
+		this.inFlight.set(key, call);
+		try {
+			return structuredClone(await call);
+		} finally {
+			this.inFlight.delete(key);
+		}
+	}
+
+	stats(): RateCacheStats {
+		return { ...this.counters };
+	}
+
+	private count(result: keyof RateCacheStats): void {
+		this.counters[result] += 1;
+		const { hits, misses, coalesced } = this.counters;
+		this.lookups?.inc({
+			namespace: this.namespace,
+			result: LOOKUP_RESULT[result],
+		});
+		this.hitRatio?.set(
+			{ namespace: this.namespace },
+			(hits + coalesced) / (hits + misses + coalesced),
+		);
+	}
+
+	private async lookup(key: string, input: RateRequest): Promise<RateQuote[]> {
+		const cached = await this.store.get(key);
+		if (cached) {
+			this.count("hits");
+			return cached;
+		}
+
+		this.count("misses");
+		const quotes = await this.inner.execute(input);
+		await this.store.set(key, structuredClone(quotes), this.ttlMs);
+		return quotes;
+	}
+}
+
+/** SHA-256 of the request in canonical form. */
+export function rateCacheKey(request: RateRequest): string {
+	const canonical = {
+		...request,
+		origin: normalizeAddress(request.origin),
+		destination: normalizeAddress(request.destination),
+		packages: request.packages.map(stableStringify).sort(),
+	};
+	return createHash("sha256").update(stableStringify(canonical)).digest("hex");
+}
+
+function normalizeAddress(address: Address): Address {
+	return Object.fromEntries(
+		Object.entries(address).map(([field, value]) => [
+			field,
+			typeof value === "string"
+				? value.trim().replace(/\s+/g, " ").toUpperCase()
+				: value,
+		]),
+	) as Address;
+}
+
+/** JSON with object keys sorted at every level, so key order never changes the hash. */
+function stableStringify(value: unknown): string {
+	if (Array.isArray(value)) {
+		return `[${value.map(stableStringify).join(",")}]`;
+	}
+	if (value !== null && typeof value === "object") {
+		const fields = Object.entries(value)
+			.filter(([, v]) => v !== undefined)
+			.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+			.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+		return `{${fields.join(",")}}`;
+	}
+	return JSON.stringify(value);
+}
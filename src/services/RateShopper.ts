@@ -0,0 +1,170 @@
+import { AppError, CarrierApiError, ValidationError } from "../core/errors.js";
+import {
+	type RateQuote,
+	type RateRequest,
+	RateRequestSchema,
+} from "../core/types.js";
+import type { OperationRegistry } from "../registry/OperationRegistry.js";
+
+export type RateSortStrategy = "cheapest" | "fastest" | "best-value";
+
+export interface RateShopperOptions {
+	carrierTimeoutMs?: number;
+	sortBy?: RateSortStrategy;
+}
+
+export interface CarrierRateError {
+	carrier: string;
+	key: string;
+	error: AppError;
+}
+
+export interface RateShopResult {
+	quotes: RateQuote[];
+	errors: CarrierRateError[];
+}
+
+/**
+ * Fans a single rate request out to every carrier with a `rating` operation.
+ * A failing or slow carrier is reported in `errors` and never hides quotes
+ * from the others.
+ */
+export class RateShopper {
+	private readonly carrierTimeoutMs: number;
+	private readonly sortBy: RateSortStrategy;
+
+	constructor(
+		private readonly registry: OperationRegistry,
+		options: RateShopperOptions = {},
+	) {
+		this.carrierTimeoutMs = options.carrierTimeoutMs ?? 15_000;
+		this.sortBy = options.sortBy ?? "cheapest";
+	}
+
+	async shop(
+		input: RateRequest,
+		sortBy: RateSortStrategy = this.sortBy,
+	): Promise<RateShopResult> {
+		const parsed = RateRequestSchema.safeParse(input);
+		if (!parsed.success) {
+			throw new ValidationError(parsed.error.message);
+		}
+
+		const carriers = this.registry.carriers("rating");
+
+		const outcomes = await Promise.all(
+			carriers.map((carrier) =>
+				this.quoteCarrier(carrier, parsed.data).then(
+					(quotes) => ({ carrier, quotes }),
+					(error: unknown) => ({ carrier, error: toAppError(error) }),
+				),
+			),
+		);
+
+		const result: RateShopResult = { quotes: [], errors: [] };
+		for (const outcome of outcomes) {
+			if ("quotes" in outcome) {
+				result.quotes.push(...outcome.quotes);
+			} else {
+				result.errors.push({
+					carrier: outcome.carrier,
+					key: `${outcome.carrier}:rating`,
+					error: outcome.error,
+				});
+			}
+		}
+
+		result.quotes = sortQuotes(result.quotes, sortBy);
+		return result;
+	}
+
+	private async quoteCarrier(
+		carrier: string,
+		input: RateRequest,
+	): Promise<RateQuote[]> {
+		const key = `${carrier}:rating` as const;
+		const operation = this.registry.resolve(key);
+		let timer: NodeJS.Timeout | undefined;
+		const timeout = new Promise<never>((_, reject) => {
+			timer = setTimeout(
+				() =>
+					reject(
+						new CarrierApiError(
+							`${key} timed out after ${this.carrierTimeoutMs}ms`,
+							0,
+						),
+					),
+				this.carrierTimeoutMs,
+			);
+		});
+
+		try {
+			return await Promise.race([operation.execute(input), timeout]);
+		} finally {
+			clearTimeout(timer);
+		}
+	}
+}
+
+export function sortQuotes(
+	quotes: RateQuote[],
+	sortBy: RateSortStrategy,
+): RateQuote[] {
+	// amounts are only comparable within a currency, so group by currency first
+	const byPrice = (a: RateQuote, b: RateQuote) =>
+		a.totalCharge.currency.localeCompare(b.totalCharge.currency) ||
+		a.totalCharge.amount - b.totalCharge.amount;
+	const byDays = (a: RateQuote, b: RateQuote) =>
+		transitDays(a) - transitDays(b);
+
+	if (sortBy === "cheapest") {
+		return [...quotes].sort((a, b) => byPrice(a, b) || byDays(a, b));
+	}
+	if (sortBy === "fastest") {
+		return [...quotes].sort((a, b) => byDays(a, b) || byPrice(a, b));
+	}
+
+	// best value: equal weight on price and transit time, each scaled to 0..1 across
+	// the result set; prices only against quotes in the same currency
+	const prices = new Map<string, number[]>();
+	for (const { totalCharge } of quotes) {
+		prices.set(totalCharge.currency, [
+			...(prices.get(totalCharge.currency) ?? []),
+			totalCharge.amount,
+		]);
+	}
+	const days = quotes
+		.map((q) => q.estimatedDeliveryDays)
+		.filter((d) => d !== undefined);
+	const scale = (value: number, values: number[]) => {
+		const min = Math.min(...values);
+		const max = Math.max(...values);
+		return max === min ? 0 : (value - min) / (max - min);
+	};
+	const score = (q: RateQuote) =>
+		scale(q.totalCharge.amount, prices.get(q.totalCharge.currency) ?? []) +
+		(q.estimatedDeliveryDays === undefined || days.length === 0
+			? 1
+			: scale(q.estimatedDeliveryDays, days));
+
+	return [...quotes].sort(
+		(a, b) =>
+			a.totalCharge.currency.localeCompare(b.totalCharge.currency) ||
+			score(a) - score(b) ||
+			byPrice(a, b),
+	);
+}
+
+function transitDays(quote: RateQuote): number {
+	return quote.estimatedDeliveryDays ?? Number.POSITIVE_INFINITY;
+}
+
+function toAppError(error: unknown): AppError {
+	if (error instanceof AppError) return error;
+	return new CarrierApiError(
+		error instanceof Error ? error.message : "Unknown carrier error",
+		0,
+		undefined,
+		{ cause: error instanceof Error ? error : undefined },
+	);
+}
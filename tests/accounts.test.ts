@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { registerUpsCarrier } from "../src/carriers/ups/register.js";
+import type { Config } from "../src/config.js";
+import { AccountNotFoundError } from "../src/core/errors.js";
+import type { RateQuote, RateRequest } from "../src/core/types.js";
+import { withAccountId } from "../src/registry/accounts.js";
+import { OperationRegistry } from "../src/registry/OperationRegistry.js";
+import { CachedRatingOperation } from "../src/services/CachedRatingOperation.js";
+import { FakeUpsServer } from "./support/FakeUpsServer.js";
+
+const VALID_REQUEST: RateRequest = {
+	origin: {
+		line1: "123 Main St",
+		city: "New York",
+		stateCode: "NY",
+		postalCode: "10001",
+		countryCode: "US",
+	},
+	destination: {
+		line1: "456 Oak Ave",
+		city: "Los Angeles",
+		stateCode: "CA",
+		postalCode: "90001",
+		countryCode: "US",
+	},
+	packages: [{ weightLbs: 5, lengthIn: 10, widthIn: 8, heightIn: 6 }],
+};
+
+const basic = (clientId: string, secret: string) =>
+	`Basic ${Buffer.from(`${clientId}:${secret}`).toString("base64")}`;
+
+let fake: FakeUpsServer;
+let registry: OperationRegistry;
+
+beforeEach(async () => {
+	fake = await FakeUpsServer.start({
+		otherClients: { "acme-client": "acme-secret" },
+	});
+	const config: Config = {
+		server: { port: 0 },
+		ups: {
+			clientId: "test-client-id",
+			clientSecret: "test-client-secret",
+			baseUrl: fake.baseUrl,
+			accounts: {
+				acme: {
+					clientId: "acme-client",
+					clientSecret: "acme-secret",
+					accountNumber: "ACME01",
+				},
+			},
+		},
+	};
+	registry = new OperationRegistry();
+	registerUpsCarrier(registry, config, {
+		http: { timeoutMs: 300, retry: { baseDelayMs: 1, jitter: false } },
+	});
+});
+
+afterEach(async () => {
+	await fake.stop();
+});
+
+describe("carrier accounts", () => {
+	it("sends each call with the selected account's credentials and shipper number", async () => {
+		const ups = registry.resolve("ups:rating");
+
+		await ups.execute(VALID_REQUEST);
+		await withAccountId("acme", () => ups.execute(VALID_REQUEST));
+
+		expect(
+			fake.requestsTo("token").map((r) => r.headers.authorization),
+		).toEqual([
+			basic("test-client-id", "test-client-secret"),
+			basic("acme-client", "acme-secret"),
+		]);
+		const [mine, acme] = fake.requestsTo("rating");
+		expect(mine?.headers.authorization).toBe("Bearer fake-token-1");
+		expect(acme?.headers.authorization).toBe("Bearer fake-token-2");
+		const shipper = (body: string | undefined) =>
+			JSON.parse(body ?? "{}").RateRequest.Shipment.Shipper.ShipperNumber;
+		expect(shipper(mine?.body)).toBe("");
+		expect(shipper(acme?.body)).toBe("ACME01");
+	});
+
+	it("prefers the account named on the request over the ambient one", async () => {
+		const ups = registry.resolve("ups:rating");
+
+		await withAccountId("globex", () =>
+			ups.execute({ ...VALID_REQUEST, accountId: "acme" }),
+		);
+
+		expect(
+			fake.requestsTo("token").map((r) => r.headers.authorization),
+		).toEqual([basic("acme-client", "acme-secret")]);
+		await expect(
+			ups.execute({ ...VALID_REQUEST, accountId: "globex" }),
+		).rejects.toThrow(AccountNotFoundError);
+	});
+
+	it("keeps a separate token cache per account", async () => {
+		const ups = registry.resolve("ups:rating");
+
+		await withAccountId("acme", () => ups.execute(VALID_REQUEST));
+		await ups.execute(VALID_REQUEST);
+		await withAccountId("acme", () => ups.execute(VALID_REQUEST));
+		await ups.execute(VALID_REQUEST);
+
+		expect(fake.requestsTo("token")).toHaveLength(2);
+		expect(
+			fake.requestsTo("rating").map((r) => r.headers.authorization),
+		).toEqual([
+			"Bearer fake-token-1",
+			"Bearer fake-token-2",
+			"Bearer fake-token-1",
+			"Bearer fake-token-2",
+		]);
+	});
+
+	it("fails clearly for an unknown account or one without the operation", async () => {
+		await expect(
+			withAccountId("globex", () =>
+				registry.resolve("ups:rating").execute(VALID_REQUEST),
+			),
+		).rejects.toThrow(new AccountNotFoundError("ups:rating", "globex").message);
+
+		// only acme has a shipper number, so only acme can buy labels
+		await expect(
+			registry.resolve("ups:label").execute({
+				...VALID_REQUEST,
+				shipper: { name: "Cybership Warehouse", phone: "2125550100" },
+				recipient: { name: "Jane Doe" },
+				serviceCode: "03",
+				labelFormat: "ZPL",
+			}),
+		).rejects.toThrow(AccountNotFoundError);
+		expect(fake.requests).toHaveLength(0);
+	});
+
+	it("never serves one account's cached quotes to another", async () => {
+		let calls = 0;
+		const cached = new CachedRatingOperation({
+			execute: async (): Promise<RateQuote[]> => {
+				calls += 1;
+				return [];
+			},
+		});
+
+		await cached.execute(VALID_REQUEST);
+		await withAccountId("acme", () => cached.execute(VALID_REQUEST));
+		await withAccountId("acme", () => cached.execute(VALID_REQUEST));
+
+		expect(calls).toBe(2);
+	});
+});
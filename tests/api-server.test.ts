@@ -0,0 +1,249 @@
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import {
+	AccountNotFoundError,
+	AuthenticationError,
+	CarrierApiError,
+	CarrierUnavailableError,
+	OperationNotFoundError,
+	RateLimitError,
+	ShipmentInTransitError,
+	ValidationError,
+} from "../src/core/errors.js";
+import type { RateQuote, RateRequest } from "../src/core/types.js";
+import { AccountRoutedOperation } from "../src/registry/accounts.js";
+import { OperationRegistry } from "../src/registry/OperationRegistry.js";
+import { createApiServer, errorResponse } from "../src/server/ApiServer.js";
+
+const VALID_REQUEST: RateRequest = {
+	origin: {
+		line1: "123 Main St",
+		city: "New York",
+		stateCode: "NY",
+		postalCode: "10001",
+		countryCode: "US",
+	},
+	destination: {
+		line1: "456 Oak Ave",
+		city: "Los Angeles",
+		stateCode: "CA",
+		postalCode: "90001",
+		countryCode: "US",
+	},
+	packages: [{ weightLbs: 5, lengthIn: 10, widthIn: 8, heightIn: 6 }],
+};
+
+const quote = (carrier: string, serviceCode: string, cents: number) =>
+	({
+		carrier,
+		serviceCode,
+		serviceName: serviceCode,
+		totalCharge: { amount: cents, currency: "USD" },
+		charges: [],
+	}) satisfies RateQuote;
+
+let close: (() => Promise<void>) | undefined;
+
+afterEach(async () => {
+	await close?.();
+	close = undefined;
+});
+
+async function start(registry: OperationRegistry) {
+	const server = createApiServer({ registry });
+	await new Promise<void>((resolve) => server.listen(0, resolve));
+	close = () => new Promise((resolve) => server.close(() => resolve()));
+	const { port } = server.address() as AddressInfo;
+
+	return async (path: string, init?: RequestInit) => {
+		const response = await fetch(`http://127.0.0.1:${port}${path}`, init);
+		return { response, body: (await response.json()) as any };
+	};
+}
+
+const post = (body: unknown): RequestInit => ({
+	method: "POST",
+	headers: { "Content-Type": "application/json" },
+	body: typeof body === "string" ? body : JSON.stringify(body),
+});
+
+function buildRegistry() {
+	const registry = new OperationRegistry();
+	registry.register("ups:rating", {
+		execute: async () => [quote("UPS", "03", 1250), quote("UPS", "01", 4560)],
+	});
+	registry.register("ups:tracking", { execute: jest.fn<any>() });
+	registry.register("fedex:rating", {
+		execute: async () => {
+			throw new RateLimitError("FedEx rate limit", 2500);
+		},
+	});
+	return registry;
+}
+
+describe("API server", () => {
+	it("reports health and lists carriers with their operations", async () => {
+		const request = await start(buildRegistry());
+
+		const health = await request("/health");
+		expect(health.response.status).toBe(200);
+		expect(health.body).toEqual({ status: "ok" });
+
+		const { body } = await request("/v1/carriers");
+		expect(body).toEqual({
+			carriers: [
+				{ carrier: "ups", operations: ["rating", "tracking"] },
+				{ carrier: "fedex", operations: ["rating"] },
+			],
+		});
+	});
+
+	it("shops every carrier and reports per-carrier errors as codes", async () => {
+		const request = await start(buildRegistry());
+
+		const { response, body } = await request(
+			"/v1/rates?sortBy=cheapest",
+			post(VALID_REQUEST),
+		);
+
+		expect(response.status).toBe(200);
+		expect(body.quotes.map((q: RateQuote) => q.serviceCode)).toEqual([
+			"03",
+			"01",
+		]);
+		expect(body.errors).toEqual([
+			{
+				carrier: "fedex",
+				code: "RATE_LIMIT_ERROR",
+				message: "FedEx rate limit",
+			},
+		]);
+	});
+
+	it("rates with a single carrier and maps its errors to HTTP statuses", async () => {
+		const request = await start(buildRegistry());
+
+		const ups = await request("/v1/rates/ups", post(VALID_REQUEST));
+		expect(ups.response.status).toBe(200);
+		expect(ups.body.quotes).toHaveLength(2);
+
+		const fedex = await request("/v1/rates/fedex", post(VALID_REQUEST));
+		expect(fedex.response.status).toBe(429);
+		expect(fedex.response.headers.get("retry-after")).toBe("3");
+		expect(fedex.body).toEqual({
+			error: { code: "RATE_LIMIT_ERROR", message: "FedEx rate limit" },
+		});
+
+		const usps = await request("/v1/rates/usps", post(VALID_REQUEST));
+		expect(usps.response.status).toBe(404);
+		expect(usps.body.error.code).toBe("OPERATION_NOT_FOUND");
+	});
+
+	it("rejects invalid bodies, unknown routes and wrong methods", async () => {
+		const request = await start(buildRegistry());
+
+		const invalid = await request(
+			"/v1/rates",
+			post({ ...VALID_REQUEST, packages: [] }),
+		);
+		expect(invalid.response.status).toBe(400);
+		expect(invalid.body.error.code).toBe("VALIDATION_ERROR");
+
+		const malformed = await request("/v1/rates/ups", post("{not json"));
+		expect(malformed.response.status).toBe(400);
+		expect(malformed.body.error.message).toBe("Request body is not valid JSON");
+
+		const badSort = await request(
+			"/v1/rates?sortBy=random",
+			post(VALID_REQUEST),
+		);
+		expect(badSort.response.status).toBe(400);
+
+		expect((await request("/v2/rates")).response.status).toBe(404);
+		const wrongMethod = await request("/v1/rates");
+		expect(wrongMethod.response.status).toBe(405);
+		expect(wrongMethod.response.headers.get("allow")).toBe("POST");
+	});
+
+	it("echoes the caller's correlation ID and hides unexpected errors", async () => {
+		const registry = new OperationRegistry();
+		registry.register("ups:rating", {
+			execute: async () => {
+				throw new Error("connection string postgres://admin:pw@db");
+			},
+		});
+		const request = await start(registry);
+
+		const { response, body } = await request("/v1/rates/ups", {
+			...post(VALID_REQUEST),
+			headers: { "X-Correlation-Id": "order-42" },
+		});
+
+		expect(response.headers.get("x-correlation-id")).toBe("order-42");
+		expect(response.status).toBe(500);
+		expect(body).toEqual({
+			error: { code: "INTERNAL_ERROR", message: "Internal server error" },
+		});
+	});
+
+	it("rates with the account named in X-Account-Id", async () => {
+		const registry = new OperationRegistry();
+		registry.register(
+			"ups:rating",
+			new AccountRoutedOperation(
+				"ups:rating",
+				{ execute: async () => [quote("UPS", "03", 1250)] },
+				new Map([["acme", { execute: async () => [quote("UPS", "03", 990)] }]]),
+			),
+		);
+		const request = await start(registry);
+		const as = (accountId: string) => ({
+			...post(VALID_REQUEST),
+			headers: { "X-Account-Id": accountId },
+		});
+
+		const acme = await request("/v1/rates/ups", as("acme"));
+		expect(acme.body.quotes[0].totalCharge.amount).toBe(990);
+		expect(
+			(await request("/v1/rates/ups", post(VALID_REQUEST))).body.quotes[0]
+				.totalCharge.amount,
+		).toBe(1250);
+
+		const unknown = await request("/v1/rates/ups", as("globex"));
+		expect(unknown.response.status).toBe(404);
+		expect(unknown.body.error).toEqual({
+			code: "ACCOUNT_NOT_FOUND",
+			message: 'No account "globex" is configured for "ups:rating"',
+		});
+		expect(
+			(await request("/v1/rates/ups", as("not an id"))).response.status,
+		).toBe(400);
+	});
+
+	it("maps every AppError subclass to a consistent status", () => {
+		const statuses = [
+			new ValidationError("bad"),
+			new OperationNotFoundError("ups:label"),
+			new AccountNotFoundError("ups:label", "acme"),
+			new ShipmentInTransitError("in transit", "1Z"),
+			new RateLimitError(),
+			new CarrierUnavailableError("ups", 30_000),
+			new AuthenticationError("login rejected"),
+			new CarrierApiError("HTTP 500", 500, "110002"),
+		].map((error) => errorResponse(error).status);
+
+		expect(statuses).toEqual([400, 404, 404, 409, 429, 503, 502, 502]);
+		expect(
+			errorResponse(new CarrierApiError("HTTP 500", 500, "110002")).body,
+		).toEqual({
+			error: {
+				code: "CARRIER_API_ERROR",
+				message: "HTTP 500",
+				carrierCode: "110002",
+			},
+		});
+		expect(
+			errorResponse(new CarrierUnavailableError("ups", 30_000)).headers,
+		).toEqual({ "Retry-After": "30" });
+	});
+});
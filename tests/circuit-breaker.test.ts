@@ -0,0 +1,145 @@
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	jest,
+} from "@jest/globals";
+
+const mockRequest = jest.fn<(config: any) => Promise<unknown>>();
+
+jest.unstable_mockModule("axios", () => ({
+	default: {
+		create: jest.fn(() => ({ request: mockRequest })),
+		isAxiosError: jest.fn((err: unknown): err is Error => {
+			return typeof err === "object" && err !== null && "isAxiosError" in err;
+		}),
+	},
+}));
+
+const { default: mockedAxios } = await import("axios");
+const { HttpClient } = await import("../src/infra/HttpClient.js");
+const { CircuitBreaker, CircuitBreakerRegistry } = await import(
+	"../src/infra/CircuitBreaker.js"
+);
+const { CarrierApiError, CarrierUnavailableError, RateLimitError } =
+	await import("../src/core/errors.js");
+
+const stubAuth = {
+	accessToken: jest.fn<() => Promise<string>>().mockResolvedValue("tok"),
+	clearToken: jest.fn(),
+};
+
+const outage = () => Promise.reject(new CarrierApiError("HTTP 503", 503));
+const ok = () => Promise.resolve("ok");
+
+function breaker() {
+	return new CircuitBreaker("ups", {
+		failureRateThreshold: 0.5,
+		minimumCalls: 4,
+		windowSize: 10,
+		coolDownMs: 30_000,
+	});
+}
+
+beforeEach(() => {
+	jest.clearAllMocks();
+	jest.useFakeTimers({ now: new Date("2026-03-02T12:00:00Z") });
+	(mockedAxios.create as jest.Mock).mockReturnValue({ request: mockRequest });
+});
+
+afterEach(() => {
+	jest.useRealTimers();
+});
+
+describe("CircuitBreaker", () => {
+	it("opens once the failure rate crosses the threshold", async () => {
+		const cb = breaker();
+		await cb.execute(ok);
+		await cb.execute(ok);
+		await expect(cb.execute(outage)).rejects.toThrow(CarrierApiError);
+		expect(cb.state).toBe("closed");
+
+		await expect(cb.execute(outage)).rejects.toThrow(CarrierApiError);
+		expect(cb.snapshot()).toEqual({
+			carrier: "ups",
+			state: "open",
+			failureRate: 0.5,
+			calls: 4,
+			openUntil: Date.now() + 30_000,
+		});
+
+		const call = jest.fn(ok);
+		const error = await cb.execute(call).catch((e: unknown) => e);
+		expect(call).not.toHaveBeenCalled();
+		expect(error).toBeInstanceOf(CarrierUnavailableError);
+		expect(error).toMatchObject({ carrier: "ups", retryAfterMs: 30_000 });
+	});
+
+	it("ignores client errors and throttling", async () => {
+		const cb = breaker();
+		for (let i = 0; i < 4; i++) {
+			await cb
+				.execute(() => Promise.reject(new CarrierApiError("HTTP 400", 400)))
+				.catch(() => undefined);
+			await cb
+				.execute(() => Promise.reject(new RateLimitError()))
+				.catch(() => undefined);
+		}
+		expect(cb.state).toBe("closed");
+	});
+
+	it("lets one trial call through after the cool-down", async () => {
+		const cb = breaker();
+		for (let i = 0; i < 4; i++) await cb.execute(outage).catch(() => undefined);
+		expect(cb.state).toBe("open");
+
+		// a failed trial re-opens the circuit for another cool-down
+		jest.advanceTimersByTime(30_000);
+		expect(cb.state).toBe("half_open");
+		await expect(cb.execute(outage)).rejects.toThrow(CarrierApiError);
+		expect(cb.state).toBe("open");
+
+		// while the trial is in flight, other calls still fail fast
+		jest.advanceTimersByTime(30_000);
+		let finishTrial: (value: string) => void = () => {};
+		const trial = cb.execute(
+			() => new Promise<string>((resolve) => (finishTrial = resolve)),
+		);
+		expect(cb.isAvailable()).toBe(false);
+		await expect(cb.execute(ok)).rejects.toThrow(CarrierUnavailableError);
+
+		finishTrial("ok");
+		await expect(trial).resolves.toBe("ok");
+		expect(cb.snapshot()).toMatchObject({ state: "closed", calls: 0 });
+	});
+
+	it("makes HttpClient fail fast without touching the network", async () => {
+		const breakers = new CircuitBreakerRegistry({ minimumCalls: 2 });
+		const http = new HttpClient({
+			baseURL: "https://onlinetools.ups.com",
+			auth: stubAuth,
+			retry: { maxAttempts: 1 },
+			circuitBreaker: breakers.forCarrier("ups"),
+		});
+		const timeout = Object.assign(new Error("timeout of 10000ms exceeded"), {
+			isAxiosError: true,
+		});
+		mockRequest.mockRejectedValue(timeout);
+
+		for (let i = 0; i < 2; i++) {
+			await expect(http.request({ url: "/track" })).rejects.toThrow(
+				CarrierApiError,
+			);
+		}
+		expect(breakers.isAvailable("ups")).toBe(false);
+		expect(breakers.isAvailable("fedex")).toBe(true);
+
+		await expect(http.request({ url: "/track" })).rejects.toThrow(
+			CarrierUnavailableError,
+		);
+		expect(mockRequest).toHaveBeenCalledTimes(2);
+		expect(stubAuth.accessToken).toHaveBeenCalledTimes(2);
+	});
+});
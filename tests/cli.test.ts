@@ -0,0 +1,215 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import { z } from "zod";
+import { parseAddress, parsePackage, UsageError } from "../src/cli/args.js";
+import { type CliEnvironment, runCli } from "../src/cli/runCli.js";
+import type { Config } from "../src/config.js";
+import { AuthenticationError, RateLimitError } from "../src/core/errors.js";
+import type { RateQuote, RateRequest } from "../src/core/types.js";
+import { OperationRegistry } from "../src/registry/OperationRegistry.js";
+
+const CONFIG: Config = {
+	server: { port: 3000 },
+	ups: {
+		clientId: "id",
+		clientSecret: "secret",
+		baseUrl: "https://onlinetools.ups.com",
+	},
+};
+
+const RATE_FLAGS = [
+	"--from",
+	"123 Main St, New York, NY, 10001, US",
+	"--to",
+	"456 Oak Ave, Los Angeles, CA, 90001, US",
+	"-p",
+	"5lb:10x8x6in",
+];
+
+const QUOTE: RateQuote = {
+	carrier: "UPS",
+	serviceCode: "03",
+	serviceName: "UPS Ground",
+	totalCharge: { amount: 1250, currency: "USD" },
+	charges: [],
+	estimatedDeliveryDays: 5,
+};
+
+function setup(overrides: Partial<CliEnvironment> = {}) {
+	const out: string[] = [];
+	const err: string[] = [];
+	const upsRating = jest.fn(async (_input: RateRequest) => [QUOTE]);
+	const env: CliEnvironment = {
+		stdout: (text) => out.push(text),
+		stderr: (text) => err.push(text),
+		loadConfig: () => CONFIG,
+		setup: () => {
+			const registry = new OperationRegistry();
+			registry.register("ups:rating", { execute: upsRating });
+			registry.register("fedex:rating", {
+				execute: async () => {
+					throw new RateLimitError("FedEx rate limit");
+				},
+			});
+			return {
+				registry,
+				carriers: [
+					{
+						carrier: "ups",
+						auth: { accessToken: async () => "tok", clearToken() {} },
+						accounts: new Map([
+							["acme", { accessToken: async () => "tok", clearToken() {} }],
+						]),
+					},
+					{
+						carrier: "fedex",
+						auth: {
+							accessToken: async () => {
+								throw new AuthenticationError("invalid_client");
+							},
+							clearToken() {},
+						},
+					},
+				],
+			};
+		},
+		...overrides,
+	};
+	return { env, out, err, upsRating };
+}
+
+describe("CLI", () => {
+	it("quotes from flags as a table and reports failing carriers on stderr", async () => {
+		const { env, out, err, upsRating } = setup();
+
+		const code = await runCli(["rate", ...RATE_FLAGS], env);
+
+		expect(code).toBe(0);
+		expect(upsRating).toHaveBeenCalledWith(
+			expect.objectContaining({
+				origin: expect.objectContaining({ city: "New York", stateCode: "NY" }),
+				packages: [{ weightLbs: 5, lengthIn: 10, widthIn: 8, heightIn: 6 }],
+			}),
+		);
+		expect(out.join("\n")).toBe(
+			[
+				"CARRIER  SERVICE     CODE  TOTAL      DAYS",
+				"UPS      UPS Ground  03    12.50 USD  5",
+			].join("\n"),
+		);
+		expect(err).toEqual(["fedex: RATE_LIMIT_ERROR FedEx rate limit"]);
+	});
+
+	it("reads a JSON request file and exits with the carrier's error code", async () => {
+		const request: RateRequest = {
+			origin: parseAddress("from", "1 A St, Austin, TX, 73301, US"),
+			destination: parseAddress("to", "2 B St, Boston, MA, 02108, US"),
+			packages: [parsePackage("2kg:30x20x15cm")],
+		};
+		const { env, out } = setup({
+			readFile: async () => JSON.stringify(request),
+		});
+
+		const code = await runCli(
+			["rate", "--file", "req.json", "--carrier", "fedex", "-o", "json"],
+			env,
+		);
+
+		expect(code).toBe(7);
+		expect(out).toEqual([]);
+	});
+
+	it("prints JSON for carriers and auth check, failing on a rejected login", async () => {
+		const { env, out } = setup();
+
+		expect(await runCli(["carriers", "--output", "json"], env)).toBe(0);
+		expect(JSON.parse(out[0] ?? "")).toEqual({
+			carriers: [
+				{ carrier: "ups", operations: ["rating"] },
+				{ carrier: "fedex", operations: ["rating"] },
+			],
+		});
+
+		expect(await runCli(["auth", "check", "-o", "json"], env)).toBe(4);
+		expect(JSON.parse(out[1] ?? "")).toEqual({
+			carriers: [
+				{ carrier: "ups", ok: true },
+				{ carrier: "ups", account: "acme", ok: true },
+				{
+					carrier: "fedex",
+					ok: false,
+					error: { code: "AUTHENTICATION_ERROR", message: "invalid_client" },
+				},
+			],
+		});
+	});
+
+	it("quotes with the account selected by --account", async () => {
+		const { env, err, upsRating } = setup();
+
+		expect(
+			await runCli(["rate", ...RATE_FLAGS, "-c", "ups", "-a", "acme"], env),
+		).toBe(0);
+		expect(upsRating.mock.calls[0]?.[0].accountId).toBe("acme");
+
+		expect(await runCli(["rate", ...RATE_FLAGS, "--account", "a b"], env)).toBe(
+			2,
+		);
+		expect(err[0]).toContain('--account "a b" is not a valid account ID');
+	});
+
+	it("prints readable config errors with the validation exit code", async () => {
+		const { env, err } = setup({
+			loadConfig: () => {
+				throw new z.ZodError([
+					{
+						code: "invalid_type",
+						expected: "string",
+						path: ["ups", "clientId"],
+						message: "Invalid input: expected string, received undefined",
+					},
+				]);
+			},
+		});
+
+		expect(await runCli(["config", "validate"], env)).toBe(3);
+		expect(err[0]).toContain("Invalid configuration:");
+		expect(err[0]).toContain("at ups.clientId");
+	});
+
+	it("maps usage mistakes to exit code 2", async () => {
+		const { env, err } = setup();
+
+		expect(await runCli([], env)).toBe(2);
+		expect(await runCli(["ship"], env)).toBe(2);
+		expect(await runCli(["rate", "--bogus"], env)).toBe(2);
+		expect(await runCli(["rate", "--from", "nowhere"], env)).toBe(2);
+		expect(err).toContain('USAGE_ERROR: Unknown command "ship"');
+		expect(await runCli(["--help"], env)).toBe(0);
+	});
+
+	it("parses package and address flags", () => {
+		expect(parsePackage("2.5KG:30x20x15CM")).toEqual({
+			weightKg: 2.5,
+			lengthCm: 30,
+			widthCm: 20,
+			heightCm: 15,
+		});
+		expect(() => parsePackage("5lb:10x8x6cm")).toThrow(UsageError);
+		expect(
+			parseAddress("to", "1 Main St, Suite 4, Austin, tx, 73301, us"),
+		).toEqual({
+			line1: "1 Main St",
+			line2: "Suite 4",
+			city: "Austin",
+			stateCode: "TX",
+			postalCode: "73301",
+			countryCode: "US",
+		});
+		expect(parseAddress("to", "10 Rue de Rivoli, Paris, , 75001, fr")).toEqual({
+			line1: "10 Rue de Rivoli",
+			city: "Paris",
+			postalCode: "75001",
+			countryCode: "FR",
+		});
+	});
+});
@@ -0,0 +1,214 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import type axios from "axios";
+import type { OperationFor } from "../src/registry/OperationCatalog.js";
+
+const fixture = (name: string) =>
+	JSON.parse(
+		readFileSync(join(process.cwd(), "tests/fixtures", name), "utf-8"),
+	);
+
+const tokenSuccess = fixture("fedex-token-success.json");
+const rateSuccess = fixture("fedex-rate-success.json");
+const rate400 = fixture("fedex-rate-400.json");
+
+const mockRequest = jest.fn();
+
+jest.unstable_mockModule("axios", () => ({
+	default: {
+		post: jest.fn(),
+		create: jest.fn(() => ({ request: mockRequest })),
+		isAxiosError: jest.fn((err: unknown): err is Error => {
+			return typeof err === "object" && err !== null && "isAxiosError" in err;
+		}),
+	},
+}));
+
+const { default: mockedAxios } = await import("axios");
+const mockedPost = mockedAxios.post as jest.MockedFunction<typeof axios.post>;
+
+const { FedexAuthClient } = await import(
+	"../src/carriers/fedex/FedexAuthClient.js"
+);
+const { HttpClient } = await import("../src/infra/HttpClient.js");
+const { FedexRatingOperation } = await import(
+	"../src/carriers/fedex/FedexRatingOperation.js"
+);
+const { CarrierApiError, ValidationError } = await import(
+	"../src/core/errors.js"
+);
+const { OperationRegistry } = await import(
+	"../src/registry/OperationRegistry.js"
+);
+
+const FEDEX_CONFIG = {
+	clientId: "test-client-id",
+	clientSecret: "test-client-secret",
+	accountNumber: "740561073",
+	baseUrl: "https://apis-sandbox.fedex.com",
+};
+
+const VALID_REQUEST = {
+	origin: {
+		line1: "123 Main St",
+		line2: "Suite 4",
+		city: "New York",
+		stateCode: "NY",
+		postalCode: "10001",
+		countryCode: "US",
+	},
+	destination: {
+		line1: "456 Oak Ave",
+		city: "Los Angeles",
+		stateCode: "CA",
+		postalCode: "90001",
+		countryCode: "US",
+	},
+	packages: [{ weightLbs: 5, lengthIn: 10, widthIn: 8, heightIn: 6 }],
+};
+
+let operation: OperationFor<"rating">;
+
+beforeEach(() => {
+	jest.clearAllMocks();
+	(mockedAxios.create as jest.Mock).mockReturnValue({ request: mockRequest });
+	mockedPost.mockResolvedValue({ data: tokenSuccess } as any);
+	const auth = new FedexAuthClient(FEDEX_CONFIG);
+	const http = new HttpClient({ baseURL: FEDEX_CONFIG.baseUrl, auth });
+	const registry = new OperationRegistry();
+	registry.register(
+		"fedex:rating",
+		new FedexRatingOperation(http, FEDEX_CONFIG.accountNumber),
+	);
+	operation = registry.resolve("fedex:rating");
+});
+
+describe("FedEx rating operation", () => {
+	it("authenticates with form credentials and builds the FedEx payload", async () => {
+		mockRequest.mockResolvedValueOnce({ data: rateSuccess });
+		await operation.execute(VALID_REQUEST);
+
+		const [url, body] = mockedPost.mock.calls[0] ?? [];
+		expect(url).toBe("https://apis-sandbox.fedex.com/oauth/token");
+		expect(Object.fromEntries(new URLSearchParams(body as string))).toEqual({
+			grant_type: "client_credentials",
+			client_id: "test-client-id",
+			client_secret: "test-client-secret",
+		});
+
+		const call = mockRequest.mock.calls[0]?.[0] as any;
+		expect(call.url).toBe("/rate/v1/rates/quotes");
+		expect(call.headers.Authorization).toBe(
+			`Bearer ${tokenSuccess.access_token}`,
+		);
+		expect(call.data.accountNumber).toEqual({ value: "740561073" });
+
+		const shipment = call.data.requestedShipment;
+		expect(shipment.shipper.address).toEqual({
+			streetLines: ["123 Main St", "Suite 4"],
+			city: "New York",
+			stateOrProvinceCode: "NY",
+			postalCode: "10001",
+			countryCode: "US",
+		});
+		expect(shipment.recipient.address.city).toBe("Los Angeles");
+		expect(shipment.requestedPackageLineItems).toEqual([
+			{
+				weight: { units: "LB", value: 5 },
+				dimensions: { length: 10, width: 8, height: 6, units: "IN" },
+			},
+		]);
+	});
+
+	it("parses and normalizes a success response into RateQuote[]", async () => {
+		mockRequest.mockResolvedValueOnce({ data: rateSuccess });
+		const quotes = await operation.execute(VALID_REQUEST);
+
+		expect(quotes).toEqual([
+			{
+				carrier: "FEDEX",
+				billableWeight: { value: 5, unit: "lb", basis: "actual" },
+				serviceCode: "FEDEX_GROUND",
+				serviceName: "FedEx Ground",
+				totalCharge: { amount: 1192, currency: "USD" },
+				publishedCharge: { amount: 1380, currency: "USD" },
+				negotiatedCharge: { amount: 1192, currency: "USD" },
+				charges: [
+					{
+						type: "base",
+						description: "Base charge",
+						amount: { amount: 1045, currency: "USD" },
+					},
+					{
+						type: "fuel",
+						description: "Fuel Surcharge",
+						amount: { amount: 147, currency: "USD" },
+					},
+				],
+				estimatedDeliveryDays: 5,
+			},
+			{
+				carrier: "FEDEX",
+				billableWeight: { value: 5, unit: "lb", basis: "actual" },
+				serviceCode: "FEDEX_2_DAY",
+				serviceName: "FedEx 2Day®",
+				totalCharge: { amount: 2973, currency: "USD" },
+				negotiatedCharge: { amount: 2973, currency: "USD" },
+				charges: [
+					{
+						type: "base",
+						description: "Base charge",
+						amount: { amount: 2640, currency: "USD" },
+					},
+				],
+				estimatedDeliveryDays: 2,
+				deliveryDate: "2026-02-20",
+				deliveryGuaranteed: false,
+			},
+			{
+				carrier: "FEDEX",
+				billableWeight: { value: 5, unit: "lb", basis: "actual" },
+				serviceCode: "PRIORITY_OVERNIGHT",
+				serviceName: "FedEx Priority Overnight®",
+				totalCharge: { amount: 6814, currency: "USD" },
+				negotiatedCharge: { amount: 6814, currency: "USD" },
+				charges: [
+					{
+						type: "base",
+						description: "Base charge",
+						amount: { amount: 6230, currency: "USD" },
+					},
+				],
+				estimatedDeliveryDays: 1,
+				deliveryDate: "2026-02-19",
+				deliveryGuaranteed: true,
+				guaranteedDeliveryDate: "2026-02-19",
+			},
+		]);
+	});
+
+	it("maps invalid input, 4xx and malformed responses to structured errors", async () => {
+		await expect(operation.execute({} as any)).rejects.toThrow(ValidationError);
+		await expect(
+			operation.execute({
+				...VALID_REQUEST,
+				accessorials: { saturdayDelivery: true },
+			}),
+		).rejects.toThrow("FedEx rating does not support saturdayDelivery");
+		expect(mockRequest).not.toHaveBeenCalled();
+
+		const err = new Error("HTTP 400") as any;
+		err.isAxiosError = true;
+		err.response = { status: 400, data: rate400 };
+		mockRequest.mockRejectedValueOnce(err);
+		await expect(operation.execute(VALID_REQUEST)).rejects.toMatchObject({
+			httpStatus: 400,
+		});
+
+		mockRequest.mockResolvedValueOnce({ data: { output: {} } });
+		await expect(operation.execute(VALID_REQUEST)).rejects.toThrow(
+			CarrierApiError,
+		);
+	});
+});
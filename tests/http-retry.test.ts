@@ -0,0 +1,149 @@
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	jest,
+} from "@jest/globals";
+
+const mockRequest = jest.fn<(config: any) => Promise<unknown>>();
+
+jest.unstable_mockModule("axios", () => ({
+	default: {
+		create: jest.fn(() => ({ request: mockRequest })),
+		isAxiosError: jest.fn((err: unknown): err is Error => {
+			return typeof err === "object" && err !== null && "isAxiosError" in err;
+		}),
+	},
+}));
+
+const { default: mockedAxios } = await import("axios");
+const { HttpClient } = await import("../src/infra/HttpClient.js");
+const { CarrierApiError, RateLimitError } = await import(
+	"../src/core/errors.js"
+);
+
+const stubAuth = {
+	accessToken: jest.fn<() => Promise<string>>().mockResolvedValue("tok"),
+	clearToken: jest.fn(),
+};
+
+function axiosError(status?: number, headers: Record<string, string> = {}) {
+	const err = new Error(
+		status ? `HTTP ${status}` : "timeout of 10000ms exceeded",
+	) as any;
+	err.isAxiosError = true;
+	err.response = status ? { status, headers } : undefined;
+	return err;
+}
+
+function client(retry = {}) {
+	return new HttpClient({
+		baseURL: "https://onlinetools.ups.com",
+		auth: stubAuth,
+		retry: { baseDelayMs: 100, jitter: false, ...retry },
+	});
+}
+
+beforeEach(() => {
+	jest.clearAllMocks();
+	jest.useFakeTimers();
+	(mockedAxios.create as jest.Mock).mockReturnValue({ request: mockRequest });
+});
+
+afterEach(() => {
+	jest.useRealTimers();
+	jest.restoreAllMocks();
+});
+
+describe("HttpClient retry policy", () => {
+	it("retries transient failures with exponential backoff", async () => {
+		mockRequest
+			.mockRejectedValueOnce(axiosError(503))
+			.mockRejectedValueOnce(axiosError())
+			.mockResolvedValueOnce({ data: { ok: true } });
+
+		const result = client().request({ method: "GET", url: "/track" });
+
+		await jest.advanceTimersByTimeAsync(99);
+		expect(mockRequest).toHaveBeenCalledTimes(1);
+		await jest.advanceTimersByTimeAsync(1);
+		expect(mockRequest).toHaveBeenCalledTimes(2);
+		await jest.advanceTimersByTimeAsync(199);
+		expect(mockRequest).toHaveBeenCalledTimes(2);
+		await jest.advanceTimersByTimeAsync(1);
+
+		await expect(result).resolves.toEqual({ ok: true });
+		expect(mockRequest).toHaveBeenCalledTimes(3);
+	});
+
+	it("draws jittered delays and gives up after maxAttempts", async () => {
+		jest.spyOn(Math, "random").mockReturnValue(0.5);
+		mockRequest.mockRejectedValue(axiosError(500));
+
+		const result = client({ jitter: true, maxAttempts: 2 })
+			.request({ method: "GET", url: "/track" })
+			.catch((e: unknown) => e);
+
+		await jest.advanceTimersByTimeAsync(50);
+		const error = await result;
+		expect(mockRequest).toHaveBeenCalledTimes(2);
+		expect(error).toBeInstanceOf(CarrierApiError);
+		expect(error).toMatchObject({ httpStatus: 500 });
+	});
+
+	it("honors Retry-After on 429, even for non-idempotent calls", async () => {
+		mockRequest
+			.mockRejectedValueOnce(axiosError(429, { "retry-after": "2" }))
+			.mockResolvedValueOnce({ data: { ok: true } });
+
+		const result = client().request({ method: "POST", url: "/ship" });
+
+		await jest.advanceTimersByTimeAsync(1_999);
+		expect(mockRequest).toHaveBeenCalledTimes(1);
+		await jest.advanceTimersByTimeAsync(1);
+		await expect(result).resolves.toEqual({ ok: true });
+	});
+
+	it("surfaces a Retry-After longer than maxDelayMs to the caller", async () => {
+		mockRequest.mockRejectedValueOnce(
+			axiosError(429, { "retry-after": "120" }),
+		);
+
+		const error = await client()
+			.request({ method: "GET", url: "/track" })
+			.catch((e: unknown) => e);
+
+		expect(mockRequest).toHaveBeenCalledTimes(1);
+		expect(error).toBeInstanceOf(RateLimitError);
+		expect(error).toMatchObject({ retryAfterMs: 120_000 });
+	});
+
+	it("never repeats a non-idempotent call that may have reached the carrier", async () => {
+		for (const failure of [axiosError(500), axiosError()]) {
+			mockRequest.mockClear().mockRejectedValueOnce(failure);
+			await expect(
+				client().request({ method: "POST", url: "/ship" }),
+			).rejects.toThrow(CarrierApiError);
+			expect(mockRequest).toHaveBeenCalledTimes(1);
+		}
+	});
+
+	it("retries a POST marked idempotent and strips the flag from the request", async () => {
+		mockRequest
+			.mockRejectedValueOnce(axiosError(502))
+			.mockResolvedValueOnce({ data: { ok: true } });
+
+		const result = client().request({
+			method: "POST",
+			url: "/rating",
+			idempotent: true,
+		});
+		await jest.advanceTimersByTimeAsync(100);
+
+		await expect(result).resolves.toEqual({ ok: true });
+		expect(mockRequest).toHaveBeenCalledTimes(2);
+		expect(mockRequest.mock.calls[1]?.[0]).not.toHaveProperty("idempotent");
+	});
+});
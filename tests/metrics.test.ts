@@ -0,0 +1,188 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import type axios from "axios";
+import type { RateQuote } from "../src/core/types.js";
+
+const tokenSuccess = JSON.parse(
+	readFileSync(
+		join(process.cwd(), "tests/fixtures/ups-token-success.json"),
+		"utf-8",
+	),
+);
+
+const mockRequest = jest.fn<(config: any) => Promise<unknown>>();
+
+jest.unstable_mockModule("axios", () => ({
+	default: {
+		post: jest.fn(),
+		create: jest.fn(() => ({ request: mockRequest })),
+		isAxiosError: jest.fn((err: unknown): err is Error => {
+			return typeof err === "object" && err !== null && "isAxiosError" in err;
+		}),
+	},
+}));
+
+const { default: mockedAxios } = await import("axios");
+const mockedPost = mockedAxios.post as jest.MockedFunction<typeof axios.post>;
+
+const { UpsAuthClient } = await import("../src/carriers/ups/UpsAuthClient.js");
+const { HttpClient } = await import("../src/infra/HttpClient.js");
+const { Telemetry } = await import("../src/infra/Telemetry.js");
+const { MetricsRegistry, metricsHooks, renderPrometheus } = await import(
+	"../src/infra/metrics.js"
+);
+const { OperationRegistry } = await import(
+	"../src/registry/OperationRegistry.js"
+);
+const { CachedRatingOperation } = await import(
+	"../src/services/CachedRatingOperation.js"
+);
+const { CarrierApiError } = await import("../src/core/errors.js");
+
+const VALID_REQUEST = {
+	origin: {
+		line1: "123 Main St",
+		city: "New York",
+		stateCode: "NY",
+		postalCode: "10001",
+		countryCode: "US",
+	},
+	destination: {
+		line1: "456 Oak Ave",
+		city: "Los Angeles",
+		stateCode: "CA",
+		postalCode: "90001",
+		countryCode: "US",
+	},
+	packages: [{ weightLbs: 5, lengthIn: 10, widthIn: 8, heightIn: 6 }],
+};
+
+beforeEach(() => {
+	jest.clearAllMocks();
+	(mockedAxios.create as jest.Mock).mockReturnValue({ request: mockRequest });
+});
+
+describe("metrics", () => {
+	it("renders counters, gauges and histograms in Prometheus text format", () => {
+		const metrics = new MetricsRegistry();
+		const counter = metrics.counter("jobs_total", "Jobs\nprocessed");
+		counter.inc({ queue: 'say "hi"' });
+		counter.inc({ queue: 'say "hi"' }, 2);
+		metrics.gauge("queue_depth", "Queued jobs").set({}, 7);
+		const latency = metrics.histogram("job_seconds", "Job latency", [0.1, 1]);
+		latency.observe({ queue: "a" }, 0.05);
+		latency.observe({ queue: "a" }, 0.5);
+		latency.observe({ queue: "a" }, 3);
+
+		expect(renderPrometheus(metrics)).toBe(
+			[
+				"# HELP jobs_total Jobs\\nprocessed",
+				"# TYPE jobs_total counter",
+				'jobs_total{queue="say \\"hi\\""} 3',
+				"# HELP queue_depth Queued jobs",
+				"# TYPE queue_depth gauge",
+				"queue_depth 7",
+				"# HELP job_seconds Job latency",
+				"# TYPE job_seconds histogram",
+				'job_seconds_bucket{queue="a",le="0.1"} 1',
+				'job_seconds_bucket{queue="a",le="1"} 2',
+				'job_seconds_bucket{queue="a",le="+Inf"} 3',
+				'job_seconds_sum{queue="a"} 3.55',
+				'job_seconds_count{queue="a"} 3',
+				"",
+			].join("\n"),
+		);
+		expect(() => metrics.gauge("jobs_total", "clash")).toThrow(
+			/already registered as a counter/,
+		);
+	});
+
+	it("records latency and error codes for registry-resolved operations", async () => {
+		const metrics = new MetricsRegistry();
+		const registry = new OperationRegistry({ metrics });
+		registry.register("ups:rating", {
+			execute: jest
+				.fn<() => Promise<RateQuote[]>>()
+				.mockResolvedValueOnce([])
+				.mockRejectedValueOnce(new CarrierApiError("HTTP 503", 503)),
+		});
+
+		const rating = registry.resolve("ups:rating");
+		await rating.execute(VALID_REQUEST);
+		await expect(rating.execute(VALID_REQUEST)).rejects.toThrow(
+			CarrierApiError,
+		);
+
+		const text = renderPrometheus(metrics);
+		expect(text).toContain(
+			'carrier_operation_errors_total{carrier="ups",operation="rating",code="CARRIER_API_ERROR"} 1',
+		);
+		expect(text).toContain(
+			'carrier_operation_duration_seconds_count{carrier="ups",operation="rating",outcome="success"} 1',
+		);
+		expect(text).toContain(
+			'carrier_operation_duration_seconds_count{carrier="ups",operation="rating",outcome="error"} 1',
+		);
+	});
+
+	it("collects HTTP and token refresh metrics through telemetry hooks", async () => {
+		const metrics = new MetricsRegistry();
+		const telemetry = new Telemetry({ hooks: metricsHooks(metrics) });
+		mockedPost.mockResolvedValue({ data: tokenSuccess } as any);
+		const http = new HttpClient({
+			baseURL: "https://onlinetools.ups.com",
+			carrier: "ups",
+			auth: new UpsAuthClient(
+				{
+					clientId: "id",
+					clientSecret: "secret",
+					baseUrl: "https://onlinetools.ups.com",
+				},
+				{ telemetry },
+			),
+			telemetry,
+			retry: { baseDelayMs: 1, jitter: false },
+		});
+		const outage = Object.assign(new Error("HTTP 502"), {
+			isAxiosError: true,
+			response: { status: 502 },
+		});
+		mockRequest
+			.mockRejectedValueOnce(outage)
+			.mockResolvedValueOnce({ status: 200, data: {} });
+
+		await http.request({ method: "GET", url: "/track" });
+
+		const text = renderPrometheus(metrics);
+		expect(text).toContain(
+			'carrier_http_request_duration_seconds_count{carrier="ups",method="GET",status="502"} 1',
+		);
+		expect(text).toContain(
+			'carrier_http_request_duration_seconds_count{carrier="ups",method="GET",status="200"} 1',
+		);
+		expect(text).toContain(
+			'carrier_http_errors_total{carrier="ups",code="CARRIER_API_ERROR"} 1',
+		);
+		expect(text).toContain('carrier_http_retries_total{carrier="ups"} 1');
+		expect(text).toContain(
+			'carrier_token_refreshes_total{carrier="ups",source="carrier",outcome="success"} 1',
+		);
+	});
+
+	it("tracks the rate cache hit ratio per namespace", async () => {
+		const metrics = new MetricsRegistry();
+		const cached = new CachedRatingOperation(
+			{ execute: async () => [] },
+			{ metrics, namespace: "ups:rating" },
+		);
+
+		for (let i = 0; i < 4; i++) await cached.execute(VALID_REQUEST);
+
+		const text = renderPrometheus(metrics);
+		expect(text).toContain('rate_cache_hit_ratio{namespace="ups:rating"} 0.75');
+		expect(text).toContain(
+			'rate_cache_lookups_total{namespace="ups:rating",result="hit"} 3',
+		);
+	});
+});
@@ -0,0 +1,152 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import { CarrierApiError } from "../src/core/errors.js";
+import type { RateQuote, RateRequest } from "../src/core/types.js";
+import { withCorrelationId } from "../src/infra/Telemetry.js";
+import {
+	type OperationMiddleware,
+	timeoutMiddleware,
+} from "../src/registry/middleware.js";
+import { OperationRegistry } from "../src/registry/OperationRegistry.js";
+
+const VALID_REQUEST: RateRequest = {
+	origin: {
+		line1: "123 Main St",
+		city: "New York",
+		stateCode: "NY",
+		postalCode: "10001",
+		countryCode: "US",
+	},
+	destination: {
+		line1: "456 Oak Ave",
+		city: "Los Angeles",
+		stateCode: "CA",
+		postalCode: "90001",
+		countryCode: "US",
+	},
+	packages: [{ weightLbs: 5, lengthIn: 10, widthIn: 8, heightIn: 6 }],
+};
+
+const QUOTE: RateQuote = {
+	carrier: "UPS",
+	serviceCode: "03",
+	serviceName: "UPS Ground",
+	totalCharge: { amount: 1250, currency: "USD" },
+	charges: [],
+};
+
+const tracing =
+	(name: string, calls: string[]): OperationMiddleware =>
+	async (input, _context, next) => {
+		calls.push(`${name}:before`);
+		const output = await next(input);
+		calls.push(`${name}:after`);
+		return output;
+	};
+
+afterEach(() => {
+	jest.useRealTimers();
+});
+
+describe("operation middleware", () => {
+	it("runs global middleware around per-key middleware around the operation", async () => {
+		const calls: string[] = [];
+		const registry = new OperationRegistry({
+			middleware: [tracing("global", calls)],
+		});
+		registry.register(
+			"ups:rating",
+			{
+				execute: async () => {
+					calls.push("operation");
+					return [QUOTE];
+				},
+			},
+			{ middleware: [tracing("ups", calls)] },
+		);
+		registry.register("fedex:rating", { execute: async () => [] });
+		registry.use(tracing("late", calls));
+
+		await expect(
+			registry.resolve("ups:rating").execute(VALID_REQUEST),
+		).resolves.toEqual([QUOTE]);
+		expect(calls).toEqual([
+			"global:before",
+			"late:before",
+			"ups:before",
+			"operation",
+			"ups:after",
+			"late:after",
+			"global:after",
+		]);
+
+		calls.length = 0;
+		await registry.resolve("fedex:rating").execute(VALID_REQUEST);
+		expect(calls).toEqual([
+			"global:before",
+			"late:before",
+			"late:after",
+			"global:after",
+		]);
+	});
+
+	it("hands middleware the key, carrier and caller's correlation ID", async () => {
+		const seen = jest.fn<OperationMiddleware>((input, _context, next) =>
+			next(input),
+		);
+		const registry = new OperationRegistry({ middleware: [seen] });
+		registry.register("ups:rating", { execute: async () => [] });
+
+		await withCorrelationId(
+			() => registry.resolve("ups:rating").execute(VALID_REQUEST),
+			"order-7",
+		);
+
+		expect(seen.mock.calls[0]?.[1]).toEqual({
+			key: "ups:rating",
+			carrier: "ups",
+			operation: "rating",
+			correlationId: "order-7",
+		});
+	});
+
+	it("lets middleware short-circuit without calling the operation", async () => {
+		const ups = { execute: jest.fn(async () => [QUOTE]) };
+		const registry = new OperationRegistry();
+		registry.register("ups:rating", ups, {
+			middleware: [async () => []],
+		});
+
+		await expect(
+			registry.resolve("ups:rating").execute(VALID_REQUEST),
+		).resolves.toEqual([]);
+		expect(ups.execute).not.toHaveBeenCalled();
+	});
+
+	it("times out a slow operation", async () => {
+		jest.useFakeTimers();
+		const registry = new OperationRegistry({
+			middleware: [timeoutMiddleware(500)],
+		});
+		registry.register("ups:rating", {
+			execute: () => new Promise<RateQuote[]>(() => {}),
+		});
+
+		const pending = registry.resolve("ups:rating").execute(VALID_REQUEST);
+		const assertion = expect(pending).rejects.toThrow(
+			/ups:rating timed out after 500ms/,
+		);
+		await jest.advanceTimersByTimeAsync(500);
+		await assertion;
+	});
+
+	it("rejects an adapter result that breaks the domain schema", async () => {
+		const registry = new OperationRegistry();
+		registry.register("ups:rating", {
+			execute: async () => [{ ...QUOTE, serviceName: "" }],
+		});
+
+		await expect(
+			registry.resolve("ups:rating").execute(VALID_REQUEST),
+		).rejects.toThrow(CarrierApiError);
+	});
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "@jest/globals";
+import { ValidationError } from "../src/core/errors.js";
+import { addMoney, toDecimal, toMoney } from "../src/core/money.js";
+
+describe("Money", () => {
+	it("converts decimal strings to integer minor units without float drift", () => {
+		expect(toMoney("12.35", "USD")).toEqual({ amount: 1235, currency: "USD" });
+		expect(toMoney("0.29", "USD")).toEqual({ amount: 29, currency: "USD" });
+		expect(toMoney("7", "CAD")).toEqual({ amount: 700, currency: "CAD" });
+		expect(toMoney("1.005", "USD").amount).toBe(101);
+		expect(toMoney("1500", "JPY")).toEqual({ amount: 1500, currency: "JPY" });
+		expect(toMoney("2.125", "KWD")).toEqual({ amount: 2125, currency: "KWD" });
+		expect(toMoney(29.73, "USD").amount).toBe(2973);
+		expect(() => toMoney("abc", "USD")).toThrow(ValidationError);
+	});
+
+	it("converts numbers through their decimal digits too", () => {
+		// 1.005 * 100 is 100.49999999999999 in floating point
+		expect(toMoney(1.005, "USD").amount).toBe(101);
+		expect(toMoney(8.345, "USD").amount).toBe(835);
+		expect(toMoney(-4.5, "JPY").amount).toBe(-5);
+		expect(toMoney(1e-7, "USD").amount).toBe(0);
+		expect(() => toMoney(Number.NaN, "USD")).toThrow(ValidationError);
+	});
+
+	it("adds amounts of the same currency only", () => {
+		const sum = addMoney(toMoney("9.35", "USD"), toMoney("9.35", "USD"));
+		expect(sum).toEqual({ amount: 1870, currency: "USD" });
+		expect(toDecimal(sum)).toBe(18.7);
+		expect(() => addMoney(sum, toMoney("1.00", "CAD"))).toThrow(
+			ValidationError,
+		);
+	});
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import {
+	DuplicateOperationError,
+	OperationNotFoundError,
+	ValidationError,
+} from "../src/core/errors.js";
+import type {
+	RateQuote,
+	RateRequest,
+	TrackingResult,
+} from "../src/core/types.js";
+import { OperationRegistry } from "../src/registry/OperationRegistry.js";
+
+const VALID_REQUEST: RateRequest = {
+	origin: {
+		line1: "123 Main St",
+		city: "New York",
+		stateCode: "NY",
+		postalCode: "10001",
+		countryCode: "US",
+	},
+	destination: {
+		line1: "456 Oak Ave",
+		city: "Los Angeles",
+		stateCode: "CA",
+		postalCode: "90001",
+		countryCode: "US",
+	},
+	packages: [{ weightLbs: 5, lengthIn: 10, widthIn: 8, heightIn: 6 }],
+};
+
+const rating = () => ({
+	execute: jest.fn<(input: RateRequest) => Promise<RateQuote[]>>(
+		async () => [],
+	),
+});
+
+const tracking = () => ({
+	execute: jest.fn<() => Promise<TrackingResult>>(),
+});
+
+describe("OperationRegistry", () => {
+	it("enumerates carriers and their operations", () => {
+		const registry = new OperationRegistry();
+		registry.register("ups:rating", rating());
+		registry.register("ups:tracking", tracking());
+		registry.register("fedex:rating", rating());
+
+		expect(registry.carriers()).toEqual(["ups", "fedex"]);
+		expect(registry.carriers("tracking")).toEqual(["ups"]);
+		expect(registry.operations("ups")).toEqual(["rating", "tracking"]);
+		expect(registry.operations("usps")).toEqual([]);
+		expect(registry.has("fedex:rating")).toBe(true);
+		expect(registry.has("fedex:tracking")).toBe(false);
+		expect(registry.keys()).toEqual([
+			"ups:rating",
+			"ups:tracking",
+			"fedex:rating",
+		]);
+	});
+
+	it("rejects a second registration under the same key", () => {
+		const registry = new OperationRegistry();
+		registry.register("ups:rating", rating());
+
+		expect(() => registry.register("ups:rating", rating())).toThrow(
+			DuplicateOperationError,
+		);
+	});
+
+	it("rejects keys outside the operation catalog", () => {
+		const registry = new OperationRegistry();
+
+		// @ts-expect-error "pickup" is not a catalog operation
+		expect(() => registry.register("ups:pickup", rating())).toThrow(
+			ValidationError,
+		);
+		// @ts-expect-error the carrier half of the key is missing
+		expect(() => registry.register(":rating", rating())).toThrow(
+			ValidationError,
+		);
+	});
+
+	it("only accepts implementations matching the catalog signature", () => {
+		const registry = new OperationRegistry();
+
+		// @ts-expect-error a tracking operation cannot be registered as rating
+		registry.register("ups:rating", tracking());
+		expect(registry.has("ups:rating")).toBe(true);
+	});
+
+	it("checks input against the operation schema before the carrier sees it", async () => {
+		const registry = new OperationRegistry();
+		const ups = rating();
+		registry.register("ups:rating", ups);
+		const resolved = registry.resolve("ups:rating");
+
+		await expect(
+			resolved.execute({ ...VALID_REQUEST, packages: [] }),
+		).rejects.toThrow(ValidationError);
+		expect(ups.execute).not.toHaveBeenCalled();
+
+		await resolved.execute({
+			...VALID_REQUEST,
+			unknownField: true,
+		} as RateRequest);
+		expect(ups.execute).toHaveBeenCalledWith(VALID_REQUEST);
+	});
+
+	it("throws OperationNotFoundError for an unregistered key", () => {
+		expect(() => new OperationRegistry().resolve("ups:label")).toThrow(
+			OperationNotFoundError,
+		);
+	});
+});
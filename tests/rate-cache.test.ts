@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import { CarrierApiError } from "../src/core/errors.js";
+import type { RateQuote, RateRequest } from "../src/core/types.js";
+import { LruCacheStore } from "../src/infra/CacheStore.js";
+import {
+	CachedRatingOperation,
+	rateCacheKey,
+} from "../src/services/CachedRatingOperation.js";
+
+const VALID_REQUEST: RateRequest = {
+	origin: {
+		line1: "123 Main St",
+		city: "New York",
+		stateCode: "NY",
+		postalCode: "10001",
+		countryCode: "US",
+	},
+	destination: {
+		line1: "456 Oak Ave",
+		city: "Los Angeles",
+		stateCode: "CA",
+		postalCode: "90001",
+		countryCode: "US",
+	},
+	packages: [
+		{ weightLbs: 5, lengthIn: 10, widthIn: 8, heightIn: 6 },
+		{ weightLbs: 2, lengthIn: 6, widthIn: 6, heightIn: 6 },
+	],
+};
+
+const QUOTES: RateQuote[] = [
+	{
+		carrier: "UPS",
+		serviceCode: "03",
+		serviceName: "UPS Ground",
+		totalCharge: { amount: 1250, currency: "USD" },
+		charges: [],
+	},
+];
+
+const rating = () => ({
+	execute: jest.fn(async (_input: RateRequest) => structuredClone(QUOTES)),
+});
+
+afterEach(() => {
+	jest.useRealTimers();
+});
+
+describe("rate quote caching", () => {
+	it("keys address casing, whitespace and package order to the same entry", () => {
+		const messy: RateRequest = {
+			...VALID_REQUEST,
+			origin: {
+				...VALID_REQUEST.origin,
+				line1: "  123  main st ",
+				city: "NEW YORK",
+			},
+			packages: [...VALID_REQUEST.packages].reverse(),
+		};
+		expect(rateCacheKey(messy)).toBe(rateCacheKey(VALID_REQUEST));
+
+		const heavier: RateRequest = {
+			...VALID_REQUEST,
+			packages: [{ weightLbs: 6, lengthIn: 10, widthIn: 8, heightIn: 6 }],
+		};
+		expect(rateCacheKey(heavier)).not.toBe(rateCacheKey(VALID_REQUEST));
+	});
+
+	it("serves repeats from cache until the TTL expires", async () => {
+		jest.useFakeTimers();
+		const inner = rating();
+		const cached = new CachedRatingOperation(inner, { ttlMs: 60_000 });
+
+		const first = await cached.execute(VALID_REQUEST);
+		first[0]?.charges.push({
+			type: "fuel",
+			description: "caller mutation",
+			amount: { amount: 1, currency: "USD" },
+		});
+		expect(await cached.execute(VALID_REQUEST)).toEqual(QUOTES);
+		expect(inner.execute).toHaveBeenCalledTimes(1);
+
+		jest.advanceTimersByTime(60_000);
+		await cached.execute(VALID_REQUEST);
+		expect(inner.execute).toHaveBeenCalledTimes(2);
+		expect(cached.stats()).toEqual({ hits: 1, misses: 2, coalesced: 0 });
+	});
+
+	it("makes one carrier call for identical concurrent requests", async () => {
+		const inner = rating();
+		const cached = new CachedRatingOperation(inner);
+
+		const results = await Promise.all([
+			cached.execute(VALID_REQUEST),
+			cached.execute(VALID_REQUEST),
+			cached.execute({
+				...VALID_REQUEST,
+				packages: [...VALID_REQUEST.packages].reverse(),
+			}),
+		]);
+
+		expect(inner.execute).toHaveBeenCalledTimes(1);
+		expect(results).toEqual([QUOTES, QUOTES, QUOTES]);
+		expect(cached.stats()).toEqual({ hits: 0, misses: 1, coalesced: 2 });
+	});
+
+	it("does not cache failures", async () => {
+		const inner = rating();
+		inner.execute.mockRejectedValueOnce(new CarrierApiError("HTTP 503", 503));
+		const cached = new CachedRatingOperation(inner);
+
+		await expect(cached.execute(VALID_REQUEST)).rejects.toThrow(
+			CarrierApiError,
+		);
+		await expect(cached.execute(VALID_REQUEST)).resolves.toEqual(QUOTES);
+		expect(inner.execute).toHaveBeenCalledTimes(2);
+	});
+
+	it("evicts the least recently used entry from the default store", async () => {
+		const store = new LruCacheStore<number>(2);
+		await store.set("a", 1, 1_000);
+		await store.set("b", 2, 1_000);
+		await store.get("a");
+		await store.set("c", 3, 1_000);
+
+		expect(store.size).toBe(2);
+		expect(await store.get("b")).toBeUndefined();
+		expect(await store.get("a")).toBe(1);
+		expect(await store.get("c")).toBe(3);
+	});
+});
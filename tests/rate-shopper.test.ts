@@ -0,0 +1,139 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import { CarrierApiError, RateLimitError } from "../src/core/errors.js";
+import type { RateQuote, RateRequest } from "../src/core/types.js";
+import { OperationRegistry } from "../src/registry/OperationRegistry.js";
+import { RateShopper, sortQuotes } from "../src/services/RateShopper.js";
+
+const VALID_REQUEST: RateRequest = {
+	origin: {
+		line1: "123 Main St",
+		city: "New York",
+		stateCode: "NY",
+		postalCode: "10001",
+		countryCode: "US",
+	},
+	destination: {
+		line1: "456 Oak Ave",
+		city: "Los Angeles",
+		stateCode: "CA",
+		postalCode: "90001",
+		countryCode: "US",
+	},
+	packages: [{ weightLbs: 5, lengthIn: 10, widthIn: 8, heightIn: 6 }],
+};
+
+const quote = (
+	carrier: string,
+	serviceCode: string,
+	cents: number,
+	estimatedDeliveryDays?: number,
+): RateQuote => ({
+	carrier,
+	serviceCode,
+	serviceName: serviceCode,
+	totalCharge: { amount: cents, currency: "USD" },
+	charges: [],
+	...(estimatedDeliveryDays !== undefined && { estimatedDeliveryDays }),
+});
+
+const resolving = (quotes: RateQuote[]) => ({
+	execute: jest.fn(async () => quotes),
+});
+
+function buildRegistry() {
+	const registry = new OperationRegistry();
+	registry.register(
+		"ups:rating",
+		resolving([quote("UPS", "03", 1250, 5), quote("UPS", "01", 4560, 1)]),
+	);
+	registry.register(
+		"fedex:rating",
+		resolving([quote("FEDEX", "FEDEX_2_DAY", 2973, 2)]),
+	);
+	return registry;
+}
+
+afterEach(() => {
+	jest.useRealTimers();
+});
+
+describe("RateShopper", () => {
+	it("merges quotes from every rating operation and sorts by the chosen strategy", async () => {
+		const registry = buildRegistry();
+		const label = { execute: jest.fn() };
+		registry.register("ups:label", label);
+		const shopper = new RateShopper(registry);
+
+		const cheapest = await shopper.shop(VALID_REQUEST);
+		expect(cheapest.errors).toEqual([]);
+		expect(cheapest.quotes.map((q) => q.serviceCode)).toEqual([
+			"03",
+			"FEDEX_2_DAY",
+			"01",
+		]);
+		expect(label.execute).not.toHaveBeenCalled();
+
+		const fastest = await shopper.shop(VALID_REQUEST, "fastest");
+		expect(fastest.quotes.map((q) => q.serviceCode)).toEqual([
+			"01",
+			"FEDEX_2_DAY",
+			"03",
+		]);
+
+		const bestValue = await shopper.shop(VALID_REQUEST, "best-value");
+		expect(bestValue.quotes[0]?.serviceCode).toBe("FEDEX_2_DAY");
+	});
+
+	it("scores best value on price only against quotes in the same currency", () => {
+		const cad: RateQuote = {
+			...quote("CANADAPOST", "DOM.EP", 100, 5),
+			totalCharge: { amount: 100, currency: "CAD" },
+		};
+
+		const sorted = sortQuotes(
+			[quote("UPS", "02", 1200, 1), cad, quote("UPS", "12", 1000, 3)],
+			"best-value",
+		);
+
+		expect(sorted.map((q) => q.serviceCode)).toEqual(["DOM.EP", "12", "02"]);
+	});
+
+	it("reports a failing carrier without hiding quotes from the others", async () => {
+		const registry = buildRegistry();
+		registry.register("usps:rating", {
+			execute: jest.fn(async () => {
+				throw new RateLimitError();
+			}),
+		});
+
+		const result = await new RateShopper(registry).shop(VALID_REQUEST);
+
+		expect(result.quotes).toHaveLength(3);
+		expect(result.errors).toEqual([
+			{
+				carrier: "usps",
+				key: "usps:rating",
+				error: expect.any(RateLimitError),
+			},
+		]);
+	});
+
+	it("times out a slow carrier independently", async () => {
+		jest.useFakeTimers();
+		const registry = buildRegistry();
+		registry.register("usps:rating", {
+			execute: () => new Promise<RateQuote[]>(() => {}),
+		});
+
+		const pending = new RateShopper(registry, { carrierTimeoutMs: 500 }).shop(
+			VALID_REQUEST,
+		);
+		await jest.advanceTimersByTimeAsync(500);
+		const result = await pending;
+
+		expect(result.quotes).toHaveLength(3);
+		expect(result.errors[0]?.carrier).toBe("usps");
+		expect(result.errors[0]?.error).toBeInstanceOf(CarrierApiError);
+		expect(result.errors[0]?.error.message).toMatch(/timed out after 500ms/);
+	});
+});
@@ -0,0 +1,260 @@
+import { readFileSync } from "node:fs";
+import {
+	createServer,
+	type IncomingHttpHeaders,
+	type IncomingMessage,
+	type Server,
+	type ServerResponse,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import { join } from "node:path";
+
+export type FakeRoute = "token" | "rating";
+
+/**
+ * One scripted reply. Leaving out `status` keeps the route's normal reply,
+ * which with `delayMs` makes a slow but successful response.
+ */
+export interface FakeResponse {
+	status?: number;
+	/** Serialised as JSON. */
+	body?: unknown;
+	/** Sent as-is, e.g. to return a malformed body. */
+	rawBody?: string;
+	headers?: Record<string, string>;
+	delayMs?: number;
+}
+
+export interface RecordedRequest {
+	route: FakeRoute;
+	method: string;
+	path: string;
+	headers: IncomingHttpHeaders;
+	body: string;
+}
+
+export interface FakeUpsServerOptions {
+	clientId?: string;
+	clientSecret?: string;
+	/** Further client IDs it accepts, with their secrets, as for merchant accounts. */
+	otherClients?: Record<string, string>;
+	/** `expires_in` of issued tokens. */
+	tokenTtlSeconds?: number;
+}
+
+const RATE_PATH =
+	/^\/api\/rating\/v2409\/(Rate|Shop|Ratetimeintransit|Shoptimeintransit)$/;
+
+export const fixture = (name: string): unknown =>
+	JSON.parse(
+		readFileSync(join(process.cwd(), "tests/fixtures", name), "utf-8"),
+	);
+
+const upsError = (code: string, message: string) => ({
+	response: { errors: [{ code, message }] },
+});
+
+/** Ready-made replies for the failure modes worth testing. */
+export const scenarios = {
+	unauthorized: (): FakeResponse => ({
+		status: 401,
+		body: upsError("250002", "Invalid Authentication Information."),
+	}),
+	rateLimited: (retryAfterSeconds: number): FakeResponse => ({
+		status: 429,
+		headers: { "Retry-After": String(retryAfterSeconds) },
+		body: upsError("429", "Rate Limit Exceeded"),
+	}),
+	serverError: (status = 500): FakeResponse => ({
+		status,
+		body: fixture("ups-rate-500.json"),
+	}),
+	malformed: (): FakeResponse => ({
+		status: 200,
+		rawBody: '{"RateResponse": {"Response": ',
+	}),
+	slow: (delayMs: number): FakeResponse => ({ delayMs }),
+};
+
+/**
+ * An in-process UPS API on a localhost socket. It serves the OAuth token
+ * endpoint and the rating endpoints from the fixture files, checks Basic and
+ * Bearer credentials like UPS does, and replays scripted responses queued
+ * with `enqueue()` before falling back to the normal reply.
+ */
+export class FakeUpsServer {
+	readonly requests: RecordedRequest[] = [];
+	private readonly queues: Record<FakeRoute, FakeResponse[]> = {
+		token: [],
+		rating: [],
+	};
+	private readonly validTokens = new Set<string>();
+	private readonly timers = new Set<NodeJS.Timeout>();
+	private issued = 0;
+
+	private constructor(
+		private readonly server: Server,
+		private readonly options: Required<FakeUpsServerOptions>,
+	) {}
+
+	static async start(
+		options: FakeUpsServerOptions = {},
+	): Promise<FakeUpsServer> {
+		let fake: FakeUpsServer | undefined;
+		const server = createServer((req, res) => {
+			void fake?.handle(req, res);
+		});
+		fake = new FakeUpsServer(server, {
+			clientId: "test-client-id",
+			clientSecret: "test-client-secret",
+			otherClients: {},
+			tokenTtlSeconds: 14_400,
+			...options,
+		});
+		await new Promise<void>((resolve) =>
+			server.listen(0, "127.0.0.1", resolve),
+		);
+		return fake;
+	}
+
+	get baseUrl(): string {
+		const { port } = this.server.address() as AddressInfo;
+		return `http://127.0.0.1:${port}`;
+	}
+
+	/** Replies to the next calls on `route` with `responses`, in order. */
+	enqueue(route: FakeRoute, ...responses: FakeResponse[]): void {
+		this.queues[route].push(...responses);
+	}
+
+	/** Revokes every token issued so far, as UPS does when one expires. */
+	expireTokens(): void {
+		this.validTokens.clear();
+	}
+
+	requestsTo(route: FakeRoute): RecordedRequest[] {
+		return this.requests.filter((request) => request.route === route);
+	}
+
+	async stop(): Promise<void> {
+		for (const timer of this.timers) clearTimeout(timer);
+		this.server.closeAllConnections();
+		await new Promise<void>((resolve) => this.server.close(() => resolve()));
+	}
+
+	private async handle(req: IncomingMessage, res: ServerResponse) {
+		const chunks: Buffer[] = [];
+		for await (const chunk of req) chunks.push(chunk as Buffer);
+		const path = new URL(req.url ?? "/", this.baseUrl).pathname;
+		const route: FakeRoute | undefined =
+			path === "/security/v1/oauth/token"
+				? "token"
+				: RATE_PATH.test(path)
+					? "rating"
+					: undefined;
+
+		if (!route || req.method !== "POST") {
+			return this.send(res, {
+				status: 404,
+				body: upsError("404", `No fake for ${req.method} ${path}`),
+			});
+		}
+
+		const request: RecordedRequest = {
+			route,
+			method: req.method,
+			path,
+			headers: req.headers,
+			body: Buffer.concat(chunks).toString("utf-8"),
+		};
+		this.requests.push(request);
+
+		const scripted = this.queues[route].shift();
+		if (scripted?.delayMs) await this.delay(scripted.delayMs);
+		if (res.destroyed) return;
+
+		this.send(
+			res,
+			scripted?.status !== undefined
+				? scripted
+				: route === "token"
+					? this.issueToken(request)
+					: this.rate(request),
+		);
+	}
+
+	private issueToken(request: RecordedRequest): FakeResponse {
+		const clients: Record<string, string> = {
+			...this.options.otherClients,
+			[this.options.clientId]: this.options.clientSecret,
+		};
+		const [clientId, clientSecret] = Buffer.from(
+			request.headers.authorization?.replace(/^Basic /, "") ?? "",
+			"base64",
+		)
+			.toString("utf-8")
+			.split(":");
+		if (!clientId || clients[clientId] !== clientSecret) {
+			return {
+				status: 401,
+				body: upsError("10401", "ClientId is Invalid"),
+			};
+		}
+		if (request.body !== "grant_type=client_credentials") {
+			return {
+				status: 400,
+				body: upsError("10400", "Invalid/Missing grant_type"),
+			};
+		}
+
+		this.issued += 1;
+		const accessToken = `fake-token-${this.issued}`;
+		this.validTokens.add(accessToken);
+		return {
+			status: 200,
+			body: {
+				...(fixture("ups-token-success.json") as object),
+				client_id: clientId,
+				access_token: accessToken,
+				expires_in: String(this.options.tokenTtlSeconds),
+				issued_at: String(Date.now()),
+			},
+		};
+	}
+
+	private rate(request: RecordedRequest): FakeResponse {
+		const token = request.headers.authorization?.replace(/^Bearer /, "");
+		if (!token || !this.validTokens.has(token)) {
+			return scenarios.unauthorized();
+		}
+		return {
+			status: 200,
+			body: fixture(
+				request.path.endsWith("timeintransit")
+					? "ups-rate-timeintransit.json"
+					: "ups-rate-success.json",
+			),
+		};
+	}
+
+	private delay(ms: number): Promise<void> {
+		return new Promise((resolve) => {
+			const timer = setTimeout(() => {
+				this.timers.delete(timer);
+				resolve();
+			}, ms);
+			this.timers.add(timer);
+		});
+	}
+
+	private send(res: ServerResponse, response: FakeResponse): void {
+		const body =
+			response.rawBody ??
+			(response.body === undefined ? "" : JSON.stringify(response.body));
+		res.writeHead(response.status ?? 200, {
+			"Content-Type": "application/json",
+			...response.headers,
+		});
+		res.end(body);
+	}
+}
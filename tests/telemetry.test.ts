@@ -0,0 +1,209 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import type axios from "axios";
+
+const fixture = (name: string) =>
+	JSON.parse(
+		readFileSync(join(process.cwd(), "tests/fixtures", name), "utf-8"),
+	);
+
+const tokenSuccess = fixture("ups-token-success.json");
+const rateSuccess = fixture("ups-rate-success.json");
+
+const mockRequest = jest.fn<(config: any) => Promise<unknown>>();
+
+jest.unstable_mockModule("axios", () => ({
+	default: {
+		post: jest.fn(),
+		create: jest.fn(() => ({ request: mockRequest })),
+		isAxiosError: jest.fn((err: unknown): err is Error => {
+			return typeof err === "object" && err !== null && "isAxiosError" in err;
+		}),
+	},
+}));
+
+const { default: mockedAxios } = await import("axios");
+const mockedPost = mockedAxios.post as jest.MockedFunction<typeof axios.post>;
+
+const { UpsAuthClient } = await import("../src/carriers/ups/UpsAuthClient.js");
+const { UpsRatingOperation } = await import(
+	"../src/carriers/ups/UpsRatingOperation.js"
+);
+const { HttpClient } = await import("../src/infra/HttpClient.js");
+const { Telemetry, redact, withCorrelationId } = await import(
+	"../src/infra/Telemetry.js"
+);
+const { ValidationError } = await import("../src/core/errors.js");
+const { OperationRegistry } = await import(
+	"../src/registry/OperationRegistry.js"
+);
+const { telemetryMiddleware } = await import("../src/registry/middleware.js");
+
+const UPS_CONFIG = {
+	clientId: "test-client-id",
+	clientSecret: "test-client-secret",
+	baseUrl: "https://onlinetools.ups.com",
+};
+
+const VALID_REQUEST = {
+	origin: {
+		line1: "123 Main St",
+		city: "New York",
+		stateCode: "NY",
+		postalCode: "10001",
+		countryCode: "US",
+	},
+	destination: {
+		line1: "456 Oak Ave",
+		city: "Los Angeles",
+		stateCode: "CA",
+		postalCode: "90001",
+		countryCode: "US",
+	},
+	packages: [{ weightLbs: 5, lengthIn: 10, widthIn: 8, heightIn: 6 }],
+};
+
+function setup() {
+	const logs: { level: string; message: string; fields: any }[] = [];
+	const logAt =
+		(level: string) => (message: string, fields?: Record<string, unknown>) =>
+			logs.push({ level, message, fields });
+	const logger = {
+		debug: logAt("debug"),
+		info: logAt("info"),
+		warn: logAt("warn"),
+		error: logAt("error"),
+	};
+	const hooks = {
+		onRequestStart: jest.fn(),
+		onRequestEnd: jest.fn(),
+		onRetry: jest.fn(),
+		onTokenRefresh: jest.fn(),
+		onValidationFailure: jest.fn(),
+	};
+	const telemetry = new Telemetry({ logger, hooks });
+	const auth = new UpsAuthClient(UPS_CONFIG, { telemetry });
+	const http = new HttpClient({
+		baseURL: UPS_CONFIG.baseUrl,
+		auth,
+		telemetry,
+		retry: { baseDelayMs: 1, jitter: false },
+	});
+	const registry = new OperationRegistry({
+		middleware: [telemetryMiddleware(telemetry)],
+	});
+	registry.register("ups:rating", new UpsRatingOperation(http));
+	return { logs, hooks, operation: registry.resolve("ups:rating") };
+}
+
+beforeEach(() => {
+	jest.clearAllMocks();
+	(mockedAxios.create as jest.Mock).mockReturnValue({ request: mockRequest });
+	mockedPost.mockResolvedValue({ data: tokenSuccess } as any);
+});
+
+describe("telemetry", () => {
+	it("reports the request lifecycle under one correlation ID sent to UPS", async () => {
+		const { hooks, operation } = setup();
+		const outage = Object.assign(new Error("HTTP 503"), {
+			isAxiosError: true,
+			response: { status: 503 },
+		});
+		mockRequest
+			.mockRejectedValueOnce(outage)
+			.mockResolvedValueOnce({ status: 200, data: rateSuccess });
+
+		await withCorrelationId(() => operation.execute(VALID_REQUEST), "order-42");
+
+		const body = mockRequest.mock.calls[0]?.[0].data;
+		expect(body.RateRequest.Request).toEqual({
+			TransactionReference: { CustomerContext: "order-42" },
+		});
+
+		expect(hooks.onTokenRefresh).toHaveBeenCalledWith(
+			expect.objectContaining({
+				carrier: "ups",
+				source: "carrier",
+				correlationId: "order-42",
+			}),
+		);
+		expect(hooks.onRequestStart).toHaveBeenCalledTimes(2);
+		expect(hooks.onRetry).toHaveBeenCalledWith(
+			expect.objectContaining({
+				correlationId: "order-42",
+				attempt: 1,
+				delayMs: 1,
+			}),
+		);
+		const ends = hooks.onRequestEnd.mock.calls.map(([event]) => event);
+		expect(ends).toEqual([
+			expect.objectContaining({
+				correlationId: "order-42",
+				method: "POST",
+				url: "https://onlinetools.ups.com/api/rating/v2409/Shop",
+				attempt: 1,
+				status: 503,
+				durationMs: expect.any(Number),
+				error: expect.objectContaining({ httpStatus: 503 }),
+			}),
+			expect.objectContaining({ attempt: 2, status: 200 }),
+		]);
+	});
+
+	it("generates a correlation ID when the caller has none", async () => {
+		const { hooks, operation } = setup();
+		mockRequest.mockResolvedValueOnce({ data: rateSuccess });
+
+		await operation.execute(VALID_REQUEST);
+
+		const sent =
+			mockRequest.mock.calls[0]?.[0].data.RateRequest.Request
+				.TransactionReference.CustomerContext;
+		expect(sent).toMatch(/^[0-9a-f-]{36}$/);
+		expect(hooks.onRequestEnd).toHaveBeenCalledWith(
+			expect.objectContaining({ correlationId: sent }),
+		);
+	});
+
+	it("reports rejected input before any HTTP call", async () => {
+		const { hooks, operation } = setup();
+
+		await expect(operation.execute({} as any)).rejects.toThrow(ValidationError);
+
+		expect(mockRequest).not.toHaveBeenCalled();
+		expect(hooks.onValidationFailure).toHaveBeenCalledWith(
+			expect.objectContaining({
+				operation: "ups:rating",
+				correlationId: expect.any(String),
+			}),
+		);
+	});
+
+	it("never logs credentials or bearer tokens", async () => {
+		const { logs, operation } = setup();
+		mockRequest.mockResolvedValueOnce({ data: rateSuccess });
+
+		await operation.execute(VALID_REQUEST);
+
+		const requestLog = logs.find((l) => l.message === "http request");
+		expect(requestLog?.fields.headers.Authorization).toBe("[REDACTED]");
+		const output = JSON.stringify(logs);
+		expect(output).not.toContain(tokenSuccess.access_token);
+		expect(output).not.toContain(UPS_CONFIG.clientSecret);
+	});
+
+	it("redacts sensitive keys and credential values at any depth", () => {
+		expect(
+			redact({
+				client_secret: "s3cret",
+				nested: [{ accessToken: "abc", note: "sent Bearer eyJhbGciOi.x-y" }],
+				attempt: 2,
+			}),
+		).toEqual({
+			client_secret: "[REDACTED]",
+			nested: [{ accessToken: "[REDACTED]", note: "sent Bearer [REDACTED]" }],
+			attempt: 2,
+		});
+	});
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "@jest/globals";
+import { billableWeight, toImperial, toMetric } from "../src/core/units.js";
+
+const RULES = { imperialDivisor: 139, metricDivisor: 5000 };
+
+describe("package units and dimensional weight", () => {
+	it("converts between imperial and metric packages", () => {
+		expect(
+			toMetric({ weightLbs: 10, lengthIn: 12, widthIn: 10, heightIn: 8 }),
+		).toEqual({
+			weightKg: 4.54,
+			lengthCm: 30.48,
+			widthCm: 25.4,
+			heightCm: 20.32,
+		});
+		expect(
+			toImperial({ weightKg: 2, lengthCm: 40, widthCm: 30, heightCm: 20 }),
+		).toEqual({
+			weightLbs: 4.41,
+			lengthIn: 15.75,
+			widthIn: 11.81,
+			heightIn: 7.87,
+		});
+	});
+
+	it("bills on actual weight when the package is dense", () => {
+		expect(
+			billableWeight(
+				[{ weightLbs: 5, lengthIn: 10, widthIn: 8, heightIn: 6 }],
+				"imperial",
+				RULES,
+			),
+		).toEqual({ value: 5, unit: "lb", basis: "actual" });
+	});
+
+	it("bills on dimensional weight when volume drives the price", () => {
+		// 20x20x20 in = 8000 in³ / 139 = 57.6 → 58 lb
+		expect(
+			billableWeight(
+				[
+					{ weightLbs: 3, lengthIn: 20, widthIn: 20, heightIn: 20 },
+					{ weightLbs: 4.2, lengthIn: 6, widthIn: 6, heightIn: 6 },
+				],
+				"imperial",
+				RULES,
+			),
+		).toEqual({ value: 63, unit: "lb", basis: "dimensional" });
+
+		// 50x40x30 cm = 60000 cm³ / 5000 = 12 kg
+		expect(
+			billableWeight(
+				[{ weightKg: 2.2, lengthCm: 50, widthCm: 40, heightCm: 30 }],
+				"metric",
+				RULES,
+			),
+		).toEqual({ value: 12, unit: "kg", basis: "dimensional" });
+	});
+
+	it("skips dimensional weight below the carrier's volume threshold", () => {
+		const small = [{ weightLbs: 1, lengthIn: 12, widthIn: 12, heightIn: 11 }];
+		expect(
+			billableWeight(small, "imperial", {
+				imperialDivisor: 166,
+				metricDivisor: 6000,
+				minCubicInches: 1728,
+			}).basis,
+		).toBe("actual");
+		expect(billableWeight(small, "imperial", RULES).basis).toBe("dimensional");
+	});
+});
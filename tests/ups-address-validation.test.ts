@@ -0,0 +1,149 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+
+const fixture = (name: string) =>
+	JSON.parse(
+		readFileSync(join(process.cwd(), "tests/fixtures", name), "utf-8"),
+	);
+
+const xavAmbiguous = fixture("ups-xav-ambiguous.json");
+const xavValid = fixture("ups-xav-valid.json");
+const rateSuccess = fixture("ups-rate-success.json");
+
+const mockRequest = jest.fn();
+
+jest.unstable_mockModule("axios", () => ({
+	default: {
+		create: jest.fn(() => ({ request: mockRequest })),
+		isAxiosError: jest.fn((err: unknown): err is Error => {
+			return typeof err === "object" && err !== null && "isAxiosError" in err;
+		}),
+	},
+}));
+
+const { default: mockedAxios } = await import("axios");
+const { HttpClient } = await import("../src/infra/HttpClient.js");
+const { UpsAddressValidationOperation } = await import(
+	"../src/carriers/ups/UpsAddressValidationOperation.js"
+);
+const { UpsRatingOperation } = await import(
+	"../src/carriers/ups/UpsRatingOperation.js"
+);
+const { ValidationError } = await import("../src/core/errors.js");
+
+const stubAuth = {
+	accessToken: jest.fn<() => Promise<string>>().mockResolvedValue("tok"),
+	clearToken: jest.fn(),
+};
+
+const ORIGIN = {
+	line1: "123 Main St",
+	city: "New York",
+	stateCode: "NY",
+	postalCode: "10001",
+	countryCode: "US",
+};
+
+const DESTINATION = {
+	line1: "456 oak ave",
+	city: "Los Angeles",
+	stateCode: "CA",
+	postalCode: "90001",
+	countryCode: "US",
+};
+
+let http: InstanceType<typeof HttpClient>;
+let operation: InstanceType<typeof UpsAddressValidationOperation>;
+
+beforeEach(() => {
+	jest.clearAllMocks();
+	(mockedAxios.create as jest.Mock).mockReturnValue({ request: mockRequest });
+	http = new HttpClient({
+		baseURL: "https://onlinetools.ups.com",
+		auth: stubAuth,
+	});
+	operation = new UpsAddressValidationOperation(http);
+});
+
+describe("UPS address validation operation", () => {
+	it("requests validation and classification for the address", async () => {
+		mockRequest.mockResolvedValueOnce({ data: xavValid });
+		await operation.execute({ ...ORIGIN, postalCode: "10001-4356" });
+
+		const call = mockRequest.mock.calls[0]?.[0] as any;
+		expect(call.url).toBe("/api/addressvalidation/v2/3");
+		expect(call.data.XAVRequest.AddressKeyFormat).toEqual({
+			AddressLine: ["123 Main St"],
+			PoliticalDivision2: "New York",
+			PoliticalDivision1: "NY",
+			PostcodePrimaryLow: "10001",
+			PostcodeExtendedLow: "4356",
+			CountryCode: "US",
+		});
+	});
+
+	it("returns match quality, classification, and corrected candidates", async () => {
+		mockRequest.mockResolvedValueOnce({ data: xavAmbiguous });
+		const result = await operation.execute(DESTINATION);
+
+		expect(result.match).toBe("ambiguous");
+		expect(result.classification).toBe("residential");
+		expect(result.candidates).toEqual([
+			{
+				classification: "residential",
+				address: {
+					line1: "456 OAK AVE",
+					city: "LOS ANGELES",
+					stateCode: "CA",
+					postalCode: "90001-2915",
+					countryCode: "US",
+					residential: true,
+				},
+			},
+			{
+				classification: "commercial",
+				address: {
+					line1: "456 OAK ST",
+					line2: "STE 100",
+					city: "LOS ANGELES",
+					stateCode: "CA",
+					postalCode: "90001-1804",
+					countryCode: "US",
+					residential: false,
+				},
+			},
+		]);
+
+		mockRequest.mockResolvedValueOnce({ data: xavValid });
+		const exact = await operation.execute(ORIGIN);
+		expect(exact.match).toBe("exact");
+		expect(exact.candidates).toHaveLength(1);
+	});
+
+	it("carries the residential flag of a validated address into the rate request", async () => {
+		mockRequest.mockResolvedValueOnce({ data: xavAmbiguous });
+		const [best] = (await operation.execute(DESTINATION)).candidates;
+
+		mockRequest.mockResolvedValueOnce({ data: rateSuccess });
+		await new UpsRatingOperation(http).execute({
+			origin: ORIGIN,
+			destination: best?.address ?? DESTINATION,
+			packages: [{ weightLbs: 5, lengthIn: 10, widthIn: 8, heightIn: 6 }],
+		});
+
+		const shipment = (mockRequest.mock.calls[1]?.[0] as any).data.RateRequest
+			.Shipment;
+		expect(shipment.ShipTo.Address.ResidentialAddressIndicator).toBe("");
+		expect(shipment.Shipper.Address).not.toHaveProperty(
+			"ResidentialAddressIndicator",
+		);
+	});
+
+	it("rejects addresses outside UPS validation coverage", async () => {
+		await expect(
+			operation.execute({ ...DESTINATION, countryCode: "GB" }),
+		).rejects.toThrow(ValidationError);
+		expect(mockRequest).not.toHaveBeenCalled();
+	});
+});
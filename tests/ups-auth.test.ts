@@ -1,6 +1,20 @@
-import { readFileSync } from "node:fs";
+import {
+	mkdtempSync,
+	readFileSync,
+	rmSync,
+	statSync,
+	writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
 import { join } from "node:path";
-import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	jest,
+} from "@jest/globals";
 import type axios from "axios";
 
 const tokenFixture = JSON.parse(
@@ -33,6 +47,7 @@ const mockedPost = mockedAxios.post as jest.MockedFunction<typeof axios.post>;
 
 const { UpsAuthClient } = await import("../src/carriers/ups/UpsAuthClient.js");
 const { HttpClient } = await import("../src/infra/HttpClient.js");
+const { FileTokenStore } = await import("../src/infra/TokenStore.js");
 const { UpsRatingOperation } = await import(
 	"../src/carriers/ups/UpsRatingOperation.js"
 );
@@ -61,11 +76,22 @@ const VALID_REQUEST = {
 	packages: [{ weightLbs: 5, lengthIn: 10, widthIn: 8, heightIn: 6 }],
 };
 
+function axiosError(status: number) {
+	const err = new Error(`HTTP ${status}`) as any;
+	err.isAxiosError = true;
+	err.response = { status };
+	return err;
+}
+
 beforeEach(() => {
 	jest.clearAllMocks();
 	(mockedAxios.create as jest.Mock).mockReturnValue({ request: mockRequest });
 });
 
+afterEach(() => {
+	jest.useRealTimers();
+});
+
 describe("auth token lifecycle", () => {
 	it("acquires a token, reuses it from cache, and refreshes on expiry", async () => {
 		// first token has a 61s TTL (minus 60s buffer = 1s effective)
@@ -100,4 +126,143 @@ describe("auth token lifecycle", () => {
 
 		jest.restoreAllMocks();
 	});
+
+	it("collapses concurrent refreshes into a single OAuth call", async () => {
+		mockedPost.mockResolvedValue({ data: tokenFixture } as any);
+		const auth = new UpsAuthClient(UPS_CONFIG);
+
+		const tokens = await Promise.all(
+			Array.from({ length: 20 }, () => auth.accessToken()),
+		);
+
+		expect(mockedPost).toHaveBeenCalledTimes(1);
+		expect(new Set(tokens)).toEqual(new Set([tokenFixture.access_token]));
+	});
+
+	it("shares one token between processes through a file store", async () => {
+		const dir = mkdtempSync(join(tmpdir(), "ups-token-"));
+		const path = join(dir, "tokens.json");
+		try {
+			mockedPost
+				.mockResolvedValueOnce({ data: tokenFixture } as any)
+				.mockResolvedValueOnce({
+					data: { ...tokenFixture, access_token: "tok_replacement" },
+				} as any);
+			const workerA = new UpsAuthClient(UPS_CONFIG, {
+				tokenStore: new FileTokenStore(path),
+			});
+			const workerB = new UpsAuthClient(UPS_CONFIG, {
+				tokenStore: new FileTokenStore(path),
+			});
+
+			await workerA.accessToken();
+			expect(await workerB.accessToken()).toBe(tokenFixture.access_token);
+			expect(mockedPost).toHaveBeenCalledTimes(1);
+			expect(statSync(path).mode & 0o777).toBe(0o600);
+
+			// a token the carrier rejected is not picked back up from the file
+			workerB.clearToken();
+			expect(await workerB.accessToken()).toBe("tok_replacement");
+			expect(await workerA.accessToken()).toBe(tokenFixture.access_token);
+			expect(mockedPost).toHaveBeenCalledTimes(2);
+		} finally {
+			rmSync(dir, { recursive: true, force: true });
+		}
+	});
+
+	it("treats malformed entries in the token file as cache misses", async () => {
+		const dir = mkdtempSync(join(tmpdir(), "ups-token-"));
+		const path = join(dir, "tokens.json");
+		try {
+			writeFileSync(
+				path,
+				JSON.stringify({
+					broken: { accessToken: 42, expiresAt: "never" },
+					valid: { accessToken: "tok", expiresAt: 1 },
+				}),
+			);
+			const store = new FileTokenStore(path);
+			expect(await store.get("broken")).toBeUndefined();
+			expect(await store.get("valid")).toEqual({
+				accessToken: "tok",
+				expiresAt: 1,
+			});
+
+			writeFileSync(path, "[1, 2, 3]");
+			expect(await store.get("0")).toBeUndefined();
+		} finally {
+			rmSync(dir, { recursive: true, force: true });
+		}
+	});
+
+	it("starts a new refresh after clearToken instead of joining a stale one", async () => {
+		let resolveStale: (value: unknown) => void = () => undefined;
+		mockedPost
+			.mockReturnValueOnce(
+				new Promise((resolve) => {
+					resolveStale = resolve;
+				}) as any,
+			)
+			.mockResolvedValueOnce({
+				data: { ...tokenFixture, access_token: "tok_fresh" },
+			} as any);
+		const auth = new UpsAuthClient(UPS_CONFIG);
+
+		const stale = auth.accessToken();
+		auth.clearToken(tokenFixture.access_token);
+		const fresh = auth.accessToken();
+		resolveStale({ data: tokenFixture });
+
+		expect(await fresh).toBe("tok_fresh");
+		await stale;
+		expect(mockedPost).toHaveBeenCalledTimes(2);
+	});
+
+	it("answers a burst of 401s for one token with a single new token", async () => {
+		mockedPost
+			.mockResolvedValueOnce({ data: tokenFixture } as any)
+			.mockResolvedValueOnce({
+				data: { ...tokenFixture, access_token: "tok_new" },
+			} as any);
+		mockRequest
+			.mockRejectedValueOnce(axiosError(401))
+			.mockRejectedValueOnce(axiosError(401))
+			.mockRejectedValueOnce(axiosError(401))
+			.mockResolvedValue({ data: rateSuccess });
+		const auth = new UpsAuthClient(UPS_CONFIG);
+		const http = new HttpClient({ baseURL: UPS_CONFIG.baseUrl, auth });
+		const operation = new UpsRatingOperation(http);
+		await auth.accessToken();
+
+		await Promise.all(
+			Array.from({ length: 3 }, () => operation.execute(VALID_REQUEST)),
+		);
+
+		expect(mockedPost).toHaveBeenCalledTimes(2);
+		const retries = mockRequest.mock.calls
+			.slice(3)
+			.map(([config]: any) => config.headers.Authorization);
+		expect(retries).toEqual(Array(3).fill("Bearer tok_new"));
+		expect(await auth.accessToken()).toBe("tok_new");
+	});
+
+	it("refreshes proactively before the token expires", async () => {
+		jest.useFakeTimers();
+		mockedPost
+			.mockResolvedValueOnce({ data: tokenFixture } as any)
+			.mockResolvedValueOnce({
+				data: { ...tokenFixture, access_token: "tok_refreshed" },
+			} as any);
+		const auth = new UpsAuthClient(UPS_CONFIG, { refreshAheadMs: 300_000 });
+		await auth.accessToken();
+
+		// 14400s TTL less the 60s buffer, refreshed 5 minutes ahead of that
+		await jest.advanceTimersByTimeAsync((14_400 - 60 - 300) * 1000 - 1);
+		expect(mockedPost).toHaveBeenCalledTimes(1);
+		await jest.advanceTimersByTimeAsync(1);
+		expect(mockedPost).toHaveBeenCalledTimes(2);
+
+		expect(await auth.accessToken()).toBe("tok_refreshed");
+		expect(mockedPost).toHaveBeenCalledTimes(2);
+	});
 });
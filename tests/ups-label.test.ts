@@ -0,0 +1,194 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import type { OperationFor } from "../src/registry/OperationCatalog.js";
+
+const fixture = (name: string) =>
+	JSON.parse(
+		readFileSync(join(process.cwd(), "tests/fixtures", name), "utf-8"),
+	);
+
+const shipSuccess = fixture("ups-ship-success.json");
+
+const mockRequest = jest.fn();
+
+jest.unstable_mockModule("axios", () => ({
+	default: {
+		create: jest.fn(() => ({ request: mockRequest })),
+		isAxiosError: jest.fn((err: unknown): err is Error => {
+			return typeof err === "object" && err !== null && "isAxiosError" in err;
+		}),
+	},
+}));
+
+const { default: mockedAxios } = await import("axios");
+const { HttpClient } = await import("../src/infra/HttpClient.js");
+const { UpsShipOperation } = await import(
+	"../src/carriers/ups/UpsShipOperation.js"
+);
+const { CarrierApiError, ValidationError } = await import(
+	"../src/core/errors.js"
+);
+const { OperationRegistry } = await import(
+	"../src/registry/OperationRegistry.js"
+);
+
+const stubAuth = {
+	accessToken: jest.fn<() => Promise<string>>().mockResolvedValue("tok"),
+	clearToken: jest.fn(),
+};
+
+const VALID_SHIPMENT = {
+	origin: {
+		line1: "123 Main St",
+		city: "New York",
+		stateCode: "NY",
+		postalCode: "10001",
+		countryCode: "US",
+	},
+	destination: {
+		line1: "456 Oak Ave",
+		city: "Los Angeles",
+		stateCode: "CA",
+		postalCode: "90001",
+		countryCode: "US",
+	},
+	shipper: { name: "Cybership Warehouse", phone: "2125550100" },
+	recipient: { name: "Jane Doe", email: "jane@example.com" },
+	packages: [
+		{ weightLbs: 5, lengthIn: 10, widthIn: 8, heightIn: 6 },
+		{ weightLbs: 5, lengthIn: 10, widthIn: 8, heightIn: 6 },
+	],
+	serviceCode: "02",
+	labelFormat: "ZPL" as const,
+};
+
+let operation: OperationFor<"label">;
+
+beforeEach(() => {
+	jest.clearAllMocks();
+	(mockedAxios.create as jest.Mock).mockReturnValue({ request: mockRequest });
+	const http = new HttpClient({
+		baseURL: "https://onlinetools.ups.com",
+		auth: stubAuth,
+	});
+	const registry = new OperationRegistry();
+	registry.register("ups:label", new UpsShipOperation(http, "A1B2C3"));
+	operation = registry.resolve("ups:label");
+});
+
+describe("UPS ship operation", () => {
+	it("builds the UPS shipment payload billed to the shipper account", async () => {
+		mockRequest.mockResolvedValueOnce({ data: shipSuccess });
+		await operation.execute(VALID_SHIPMENT);
+
+		const call = mockRequest.mock.calls[0]?.[0] as any;
+		expect(call.url).toBe("/api/shipments/v2409/ship");
+
+		const { Shipment, LabelSpecification } = call.data.ShipmentRequest;
+		expect(Shipment.Shipper).toMatchObject({
+			Name: "Cybership Warehouse",
+			Phone: { Number: "2125550100" },
+			ShipperNumber: "A1B2C3",
+		});
+		expect(Shipment.ShipTo).toMatchObject({
+			Name: "Jane Doe",
+			EMailAddress: "jane@example.com",
+		});
+		expect(Shipment.PaymentInformation.ShipmentCharge).toEqual([
+			{ Type: "01", BillShipper: { AccountNumber: "A1B2C3" } },
+		]);
+		expect(Shipment.Service).toEqual({ Code: "02" });
+		expect(Shipment.Package).toHaveLength(2);
+		expect(Shipment.Package[0].Packaging.Code).toBe("02");
+		expect(LabelSpecification).toEqual({
+			LabelImageFormat: { Code: "ZPL" },
+			LabelStockSize: { Height: "6", Width: "4" },
+		});
+	});
+
+	it("returns tracking numbers, billed charges, and decoded labels", async () => {
+		mockRequest.mockResolvedValueOnce({ data: shipSuccess });
+		const result = await operation.execute(VALID_SHIPMENT);
+
+		expect(result).toMatchObject({
+			carrier: "UPS",
+			shipmentId: "1Z12345E0205271688",
+			trackingNumbers: ["1Z12345E0205271688", "1Z12345E0291980793"],
+			totalCharge: { amount: 5470, currency: "USD" },
+		});
+		expect(result.labels).toHaveLength(2);
+		expect(result.labels[0]?.format).toBe("ZPL");
+		expect(Buffer.isBuffer(result.labels[0]?.data)).toBe(true);
+		expect(result.labels[1]?.data.toString("utf-8")).toBe(
+			"^XA^FO50,50^ADN,36,20^FD1Z12345E0291980793^FS^XZ",
+		);
+	});
+
+	it("accepts a single PackageResults object for one-package shipments", async () => {
+		const results = shipSuccess.ShipmentResponse.ShipmentResults;
+		mockRequest.mockResolvedValueOnce({
+			data: {
+				ShipmentResponse: {
+					...shipSuccess.ShipmentResponse,
+					ShipmentResults: {
+						...results,
+						PackageResults: results.PackageResults[0],
+					},
+				},
+			},
+		});
+
+		const result = await operation.execute({
+			...VALID_SHIPMENT,
+			packages: VALID_SHIPMENT.packages.slice(0, 1),
+		});
+		expect(result.trackingNumbers).toEqual(["1Z12345E0205271688"]);
+		expect(result.labels).toHaveLength(1);
+	});
+
+	it("defaults to GIF labels and reports the format UPS rendered", async () => {
+		const results = shipSuccess.ShipmentResponse.ShipmentResults;
+		mockRequest.mockResolvedValueOnce({
+			data: {
+				ShipmentResponse: {
+					...shipSuccess.ShipmentResponse,
+					ShipmentResults: {
+						...results,
+						PackageResults: results.PackageResults.map((p: any) => ({
+							...p,
+							ShippingLabel: {
+								...p.ShippingLabel,
+								ImageFormat: { Code: "GIF", Description: "GIF" },
+							},
+						})),
+					},
+				},
+			},
+		});
+
+		const { labelFormat: _, ...withoutFormat } = VALID_SHIPMENT;
+		const result = await operation.execute(withoutFormat);
+
+		const call = mockRequest.mock.calls[0]?.[0] as any;
+		expect(call.data.ShipmentRequest.LabelSpecification).toEqual({
+			LabelImageFormat: { Code: "GIF" },
+		});
+		expect(result.labels.map((l) => l.format)).toEqual(["GIF", "GIF"]);
+	});
+
+	it("rejects invalid input and malformed responses", async () => {
+		await expect(
+			operation.execute({ ...VALID_SHIPMENT, serviceCode: "" }),
+		).rejects.toThrow(ValidationError);
+		await expect(
+			operation.execute({ ...VALID_SHIPMENT, labelFormat: "PDF" }),
+		).rejects.toThrow("UPS cannot print PDF labels; request GIF, PNG or ZPL");
+		expect(mockRequest).not.toHaveBeenCalled();
+
+		mockRequest.mockResolvedValueOnce({ data: { ShipmentResponse: {} } });
+		await expect(operation.execute(VALID_SHIPMENT)).rejects.toThrow(
+			CarrierApiError,
+		);
+	});
+});
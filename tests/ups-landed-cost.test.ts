@@ -0,0 +1,236 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import type { LandedCostRequest } from "../src/core/types.js";
+import type { OperationFor } from "../src/registry/OperationCatalog.js";
+
+const fixture = (name: string) =>
+	JSON.parse(
+		readFileSync(join(process.cwd(), "tests/fixtures", name), "utf-8"),
+	);
+
+const rateSuccess = fixture("ups-rate-success.json");
+const landedCostSuccess = fixture("ups-landed-cost-success.json");
+
+// the rate fixture is domestic; relabel its services as UPS international ones
+const internationalRates = {
+	RateResponse: {
+		...rateSuccess.RateResponse,
+		RatedShipment: rateSuccess.RateResponse.RatedShipment.map(
+			(s: object, i: number) => ({
+				...s,
+				Service: { Code: ["11", "65", "07"][i], Description: "" },
+			}),
+		),
+	},
+};
+
+const mockRequest = jest.fn<(config: any) => Promise<unknown>>();
+
+jest.unstable_mockModule("axios", () => ({
+	default: {
+		create: jest.fn(() => ({ request: mockRequest })),
+		isAxiosError: jest.fn((err: unknown): err is Error => {
+			return typeof err === "object" && err !== null && "isAxiosError" in err;
+		}),
+	},
+}));
+
+const { default: mockedAxios } = await import("axios");
+const { HttpClient } = await import("../src/infra/HttpClient.js");
+const { UpsRatingOperation } = await import(
+	"../src/carriers/ups/UpsRatingOperation.js"
+);
+const { UpsLandedCostOperation } = await import(
+	"../src/carriers/ups/UpsLandedCostOperation.js"
+);
+const { CarrierApiError, ValidationError } = await import(
+	"../src/core/errors.js"
+);
+const { OperationRegistry } = await import(
+	"../src/registry/OperationRegistry.js"
+);
+
+const stubAuth = {
+	accessToken: jest.fn<() => Promise<string>>().mockResolvedValue("tok"),
+	clearToken: jest.fn(),
+};
+
+const REQUEST: LandedCostRequest = {
+	origin: {
+		line1: "123 Main St",
+		city: "New York",
+		stateCode: "NY",
+		postalCode: "10001",
+		countryCode: "US",
+	},
+	destination: {
+		line1: "200 King St W",
+		city: "Toronto",
+		stateCode: "ON",
+		postalCode: "M5H 3T4",
+		countryCode: "CA",
+	},
+	packages: [{ weightLbs: 5, lengthIn: 10, widthIn: 8, heightIn: 6 }],
+	commodities: [
+		{
+			description: "Cotton T-shirt",
+			hsCode: "6109100010",
+			originCountryCode: "US",
+			quantity: 3,
+			value: { amount: 2000, currency: "USD" },
+		},
+		{
+			description: "Leather wallet",
+			hsCode: "4202920000",
+			originCountryCode: "IT",
+			quantity: 1,
+			value: { amount: 4550, currency: "USD" },
+		},
+	],
+	serviceCode: "65",
+};
+
+function respond(landedCost: unknown = landedCostSuccess) {
+	mockRequest.mockImplementation(async (config) => ({
+		data: config.url.startsWith("/api/landedcost")
+			? landedCost
+			: internationalRates,
+	}));
+}
+
+function callTo(prefix: string) {
+	return mockRequest.mock.calls.find(([config]) =>
+		config.url.startsWith(prefix),
+	)?.[0];
+}
+
+let operation: OperationFor<"landed-cost">;
+
+beforeEach(() => {
+	jest.clearAllMocks();
+	(mockedAxios.create as jest.Mock).mockReturnValue({ request: mockRequest });
+	const http = new HttpClient({
+		baseURL: "https://onlinetools.ups.com",
+		auth: stubAuth,
+		retry: { maxAttempts: 1 },
+	});
+	const rating = new UpsRatingOperation(http);
+	const registry = new OperationRegistry();
+	registry.register("ups:rating", rating);
+	registry.register(
+		"ups:landed-cost",
+		new UpsLandedCostOperation(http, rating),
+	);
+	operation = registry.resolve("ups:landed-cost");
+});
+
+describe("UPS landed cost operation", () => {
+	it("quotes duties, taxes and brokerage alongside the shipping rate", async () => {
+		respond();
+		const quote = await operation.execute(REQUEST);
+
+		const landed = callTo("/api/landedcost/v1/quotes");
+		expect(landed?.headers.transId).toBe(landed?.data.transID);
+		expect(landed?.data.transID).toMatch(/^[0-9a-f]{32}$/);
+		expect(landed?.data).toMatchObject({
+			currencyCode: "USD",
+			shipment: {
+				importCountryCode: "CA",
+				importProvince: "ON",
+				exportCountryCode: "US",
+				transModes: "INT_AIR",
+				shipmentItems: [
+					{
+						commodityId: "1",
+						hsCode: "6109100010",
+						originCountryCode: "US",
+						priceEach: "20.00",
+						commodityCurrencyCode: "USD",
+						quantity: 3,
+					},
+					expect.objectContaining({ commodityId: "2", priceEach: "45.50" }),
+				],
+			},
+		});
+		// the rate request declares the customs value too
+		expect(
+			callTo("/api/rating")?.data.RateRequest.Shipment.InvoiceLineTotal,
+		).toEqual({ CurrencyCode: "USD", MonetaryValue: "105.50" });
+
+		expect(quote).toEqual({
+			carrier: "UPS",
+			shipping: expect.objectContaining({
+				serviceCode: "65",
+				totalCharge: { amount: 2735, currency: "USD" },
+			}),
+			duties: { amount: 840, currency: "USD" },
+			taxes: { amount: 1345, currency: "USD" },
+			brokerageFees: { amount: 1850, currency: "USD" },
+			totalLandedCost: { amount: 6770, currency: "USD" },
+			items: [
+				{
+					hsCode: "6109100010",
+					description: "Cotton T-shirt",
+					duties: { amount: 840, currency: "USD" },
+					taxes: { amount: 920, currency: "USD" },
+				},
+				{
+					hsCode: "4202920000",
+					description: "Leather wallet",
+					duties: { amount: 0, currency: "USD" },
+					taxes: { amount: 425, currency: "USD" },
+				},
+			],
+		});
+	});
+
+	it("leaves out the total when duties come in another currency", async () => {
+		respond({
+			shipment: { ...landedCostSuccess.shipment, currencyCode: "CAD" },
+		});
+		const quote = await operation.execute({
+			...REQUEST,
+			destination: {
+				line1: "10 Downing St",
+				city: "London",
+				postalCode: "SW1A 2AA",
+				countryCode: "GB",
+			},
+			serviceCode: "11",
+		});
+
+		const landed = callTo("/api/landedcost/v1/quotes");
+		expect(landed?.data.shipment).not.toHaveProperty("importProvince");
+		expect(landed?.data.shipment.transModes).toBe("INT_GROUND");
+		expect(quote.duties).toEqual({ amount: 840, currency: "CAD" });
+		expect(quote).not.toHaveProperty("totalLandedCost");
+	});
+
+	it("rejects domestic lanes, missing commodities and services UPS does not offer", async () => {
+		await expect(
+			operation.execute({ ...REQUEST, destination: REQUEST.origin }),
+		).rejects.toThrow(ValidationError);
+		await expect(
+			operation.execute({ ...REQUEST, commodities: [] }),
+		).rejects.toThrow(ValidationError);
+		await expect(
+			operation.execute({
+				...REQUEST,
+				destination: { ...REQUEST.destination, stateCode: undefined } as any,
+			}),
+		).rejects.toThrow("stateCode is required for US and Canadian addresses");
+		expect(mockRequest).not.toHaveBeenCalled();
+
+		respond();
+		await expect(
+			operation.execute({ ...REQUEST, serviceCode: "54" }),
+		).rejects.toThrow("UPS does not offer service 54 from US to CA");
+	});
+
+	it("reports a malformed landed cost response as a carrier error", async () => {
+		respond({ shipment: { currencyCode: "USD" } });
+
+		await expect(operation.execute(REQUEST)).rejects.toThrow(CarrierApiError);
+	});
+});
@@ -1,6 +1,7 @@
 import { readFileSync } from "node:fs";
 import { join } from "node:path";
 import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import type { OperationFor } from "../src/registry/OperationCatalog.js";
 
 const fixture = (name: string) =>
 	JSON.parse(
@@ -8,6 +9,7 @@ const fixture = (name: string) =>
 	);
 
 const rateSuccess = fixture("ups-rate-success.json");
+const rateTimeInTransit = fixture("ups-rate-timeintransit.json");
 
 const mockRequest = jest.fn();
 
@@ -28,6 +30,9 @@ const { UpsRatingOperation } = await import(
 const { CarrierApiError, RateLimitError, ValidationError } = await import(
 	"../src/core/errors.js"
 );
+const { OperationRegistry } = await import(
+	"../src/registry/OperationRegistry.js"
+);
 
 const stubAuth = {
 	accessToken: jest.fn<() => Promise<string>>().mockResolvedValue("tok"),
@@ -59,7 +64,7 @@ function axiosError(status: number) {
 	return err;
 }
 
-let operation: InstanceType<typeof UpsRatingOperation>;
+let operation: OperationFor<"rating">;
 
 beforeEach(() => {
 	jest.clearAllMocks();
@@ -67,8 +72,12 @@ beforeEach(() => {
 	const http = new HttpClient({
 		baseURL: "https://onlinetools.ups.com",
 		auth: stubAuth,
+		// retries are covered in http-retry.test.ts
+		retry: { maxAttempts: 1 },
 	});
-	operation = new UpsRatingOperation(http);
+	const registry = new OperationRegistry();
+	registry.register("ups:rating", new UpsRatingOperation(http));
+	operation = registry.resolve("ups:rating");
 });
 
 describe("UPS rating operation", () => {
@@ -94,6 +103,44 @@ describe("UPS rating operation", () => {
 		});
 	});
 
+	it("sends kilograms and centimetres for metric origins", async () => {
+		mockRequest.mockResolvedValueOnce({ data: rateSuccess });
+		const quotes = await operation.execute({
+			...VALID_REQUEST,
+			origin: {
+				...VALID_REQUEST.origin,
+				city: "Toronto",
+				stateCode: "ON",
+				postalCode: "M5V 2T6",
+				countryCode: "CA",
+			},
+			packages: [
+				{ weightKg: 2.2, lengthCm: 50, widthCm: 40, heightCm: 30 },
+				{ weightLbs: 5, lengthIn: 10, widthIn: 8, heightIn: 6 },
+			],
+		});
+
+		const shipment = mockRequest.mock.calls[0]?.[0]?.data.RateRequest.Shipment;
+		const [metric, converted] = shipment.Package;
+		expect(metric).toMatchObject({
+			Dimensions: {
+				UnitOfMeasurement: { Code: "CM" },
+				Length: "50",
+				Width: "40",
+				Height: "30",
+			},
+			PackageWeight: { UnitOfMeasurement: { Code: "KGS" }, Weight: "2.2" },
+		});
+		expect(converted.PackageWeight.Weight).toBe("2.27");
+		expect(converted.Dimensions.Length).toBe("25.4");
+		// 50x40x30 cm is 12 kg dimensional, plus 2.5 kg actual for the small box
+		expect(quotes[0]?.billableWeight).toEqual({
+			value: 14.5,
+			unit: "kg",
+			basis: "dimensional",
+		});
+	});
+
 	it("parses and normalizes a success response into RateQuote[]", async () => {
 		mockRequest.mockResolvedValueOnce({ data: rateSuccess });
 		const quotes = await operation.execute(VALID_REQUEST);
@@ -103,18 +150,18 @@ describe("UPS rating operation", () => {
 			expect.objectContaining({
 				carrier: "UPS",
 				serviceCode: "03",
-				totalChargeUSD: 12.5,
+				totalCharge: { amount: 1250, currency: "USD" },
 			}),
 			expect.objectContaining({
 				carrier: "UPS",
 				serviceCode: "02",
-				totalChargeUSD: 27.35,
+				totalCharge: { amount: 2735, currency: "USD" },
 				estimatedDeliveryDays: 2,
 			}),
 			expect.objectContaining({
 				carrier: "UPS",
 				serviceCode: "01",
-				totalChargeUSD: 45.6,
+				totalCharge: { amount: 4560, currency: "USD" },
 				estimatedDeliveryDays: 1,
 				guaranteedDeliveryDate: "2026-02-20",
 			}),
@@ -125,6 +172,275 @@ describe("UPS rating operation", () => {
 		}
 	});
 
+	it("asks for transit times from a ship date and maps delivery commitments", async () => {
+		mockRequest.mockResolvedValueOnce({ data: rateTimeInTransit });
+		const quotes = await operation.execute({
+			...VALID_REQUEST,
+			shipDate: "2026-02-19T09:30",
+			includeTransitTimes: true,
+		});
+
+		const call = mockRequest.mock.calls[0]?.[0];
+		expect(call?.url).toBe("/api/rating/v2409/Shoptimeintransit");
+		expect(call?.data.RateRequest.Shipment.DeliveryTimeInformation).toEqual({
+			PackageBillType: "03",
+			Pickup: { Date: "20260219", Time: "0930" },
+		});
+		expect(call?.data.RateRequest.Shipment).not.toHaveProperty(
+			"ShipmentTotalWeight",
+		);
+
+		const [ground, secondDay, nextDay] = quotes;
+		expect(ground).toMatchObject({
+			estimatedDeliveryDays: 3,
+			deliveryDate: "2026-02-24",
+			deliveryTime: "23:30",
+			deliveryGuaranteed: false,
+		});
+		expect(ground).not.toHaveProperty("guaranteedDeliveryDate");
+		expect(secondDay).toMatchObject({
+			deliveryDate: "2026-02-23",
+			deliveryGuaranteed: true,
+			guaranteedDeliveryDate: "2026-02-23",
+		});
+		expect(nextDay).toMatchObject({
+			estimatedDeliveryDays: 1,
+			deliveryDate: "2026-02-20",
+			deliveryTime: "10:30",
+			deliveryGuaranteed: true,
+		});
+	});
+
+	it("sends the shipment's total weight with international transit time requests", async () => {
+		mockRequest.mockResolvedValueOnce({ data: rateTimeInTransit });
+		await operation.execute({
+			...VALID_REQUEST,
+			destination: {
+				line1: "200 King St W",
+				city: "Toronto",
+				stateCode: "ON",
+				postalCode: "M5H 3T4",
+				countryCode: "CA",
+			},
+			packages: [
+				{ weightLbs: 5, lengthIn: 10, widthIn: 8, heightIn: 6 },
+				{ weightLbs: 2.2, lengthIn: 20, widthIn: 20, heightIn: 20 },
+			],
+			includeTransitTimes: true,
+		});
+
+		// 5 lb actual plus 58 lb dimensional (8000 in³ / 139, rounded up)
+		expect(
+			mockRequest.mock.calls[0]?.[0].data.RateRequest.Shipment
+				.ShipmentTotalWeight,
+		).toEqual({ UnitOfMeasurement: { Code: "LBS" }, Weight: "63" });
+	});
+
+	it("keeps the configured request option and omits delivery time details by default", async () => {
+		mockRequest.mockResolvedValueOnce({ data: rateSuccess });
+		const quotes = await operation.execute({
+			...VALID_REQUEST,
+			shipDate: "2026-02-19",
+		});
+
+		const call = mockRequest.mock.calls[0]?.[0];
+		expect(call?.url).toBe("/api/rating/v2409/Shop");
+		expect(call?.data.RateRequest.Shipment).not.toHaveProperty(
+			"DeliveryTimeInformation",
+		);
+		// GuaranteedDelivery alone still marks guaranteed services
+		expect(quotes.map((q) => q.deliveryGuaranteed)).toEqual([
+			undefined,
+			true,
+			true,
+		]);
+	});
+
+	it("translates accessorials into UPS service options", async () => {
+		mockRequest
+			.mockResolvedValueOnce({ data: rateSuccess })
+			.mockResolvedValueOnce({ data: rateSuccess });
+		const [box] = VALID_REQUEST.packages;
+		await operation.execute({
+			...VALID_REQUEST,
+			accessorials: { saturdayDelivery: true },
+			packages: [
+				{
+					...box,
+					accessorials: {
+						declaredValue: { amount: 50000, currency: "USD" },
+						signature: "adult",
+						cod: { amount: 12345, currency: "USD" },
+						additionalHandling: true,
+						dryIceKg: 2.5,
+					},
+				},
+				{ ...box, accessorials: { signature: "required" } },
+			],
+		});
+
+		const domestic = mockRequest.mock.calls[0]?.[0]?.data.RateRequest.Shipment;
+		expect(domestic.ShipmentServiceOptions).toEqual({
+			SaturdayDeliveryIndicator: "",
+		});
+		expect(domestic.Package[0].AdditionalHandlingIndicator).toBe("");
+		expect(domestic.Package[0].PackageServiceOptions).toEqual({
+			DeclaredValue: { CurrencyCode: "USD", MonetaryValue: "500.00" },
+			DeliveryConfirmation: { DCISType: "3" },
+			COD: {
+				CODFundsCode: "0",
+				CODAmount: { CurrencyCode: "USD", MonetaryValue: "123.45" },
+			},
+			DryIce: {
+				RegulationSet: "CFR",
+				DryIceWeight: { UnitOfMeasurement: { Code: "00" }, Weight: "2.5" },
+			},
+		});
+		expect(domestic.Package[1].PackageServiceOptions).toEqual({
+			DeliveryConfirmation: { DCISType: "2" },
+		});
+
+		// across a border UPS takes the signature per shipment
+		await operation.execute({
+			...VALID_REQUEST,
+			destination: {
+				...VALID_REQUEST.destination,
+				city: "Toronto",
+				stateCode: "ON",
+				postalCode: "M5V 2T6",
+				countryCode: "CA",
+			},
+			packages: [{ ...box, accessorials: { signature: "required" } }],
+		});
+		const international =
+			mockRequest.mock.calls[1]?.[0]?.data.RateRequest.Shipment;
+		expect(international.ShipmentServiceOptions).toEqual({
+			DeliveryConfirmation: { DCISType: "1" },
+		});
+		expect(international.Package[0]).not.toHaveProperty(
+			"PackageServiceOptions",
+		);
+	});
+
+	it("rejects accessorials UPS cannot quote on the lane", async () => {
+		const [box] = VALID_REQUEST.packages;
+
+		await expect(
+			operation.execute({
+				...VALID_REQUEST,
+				packages: [{ ...box, accessorials: { hazmat: true } }],
+			}),
+		).rejects.toThrow(
+			new ValidationError("UPS rating does not support hazmat"),
+		);
+		await expect(
+			operation.execute({
+				...VALID_REQUEST,
+				destination: { ...VALID_REQUEST.destination, countryCode: "MX" },
+				packages: [
+					{ ...box, accessorials: { cod: { amount: 100, currency: "USD" } } },
+				],
+			}),
+		).rejects.toThrow(ValidationError);
+		expect(mockRequest).not.toHaveBeenCalled();
+	});
+
+	it("requests negotiated rates for a shipper account and exposes both totals", async () => {
+		const http = new HttpClient({
+			baseURL: "https://onlinetools.ups.com",
+			auth: stubAuth,
+		});
+		const negotiated = new UpsRatingOperation(http, "Shop", "A1B2C3");
+		const [ground, ...rest] = rateSuccess.RateResponse.RatedShipment;
+		mockRequest.mockResolvedValueOnce({
+			data: {
+				RateResponse: {
+					...rateSuccess.RateResponse,
+					RatedShipment: [
+						{
+							...ground,
+							NegotiatedRateCharges: {
+								TotalCharge: { CurrencyCode: "USD", MonetaryValue: "9.80" },
+							},
+						},
+						...rest,
+					],
+				},
+			},
+		});
+
+		const [groundQuote, secondDay] = await negotiated.execute(VALID_REQUEST);
+
+		const shipment = mockRequest.mock.calls[0]?.[0]?.data.RateRequest.Shipment;
+		expect(shipment.Shipper.ShipperNumber).toBe("A1B2C3");
+		expect(shipment.ShipmentRatingOptions).toEqual({
+			NegotiatedRatesIndicator: "",
+		});
+		expect(shipment.PaymentDetails.ShipmentCharge).toEqual([
+			{ Type: "01", BillShipper: { AccountNumber: "A1B2C3" } },
+		]);
+
+		expect(groundQuote).toMatchObject({
+			totalCharge: { amount: 980, currency: "USD" },
+			publishedCharge: { amount: 1250, currency: "USD" },
+			negotiatedCharge: { amount: 980, currency: "USD" },
+		});
+		// services without a negotiated rate fall back to the published total
+		expect(secondDay?.totalCharge).toEqual({ amount: 2735, currency: "USD" });
+		expect(secondDay?.negotiatedCharge).toBeUndefined();
+	});
+
+	it("omits account details when no shipper number is configured", async () => {
+		mockRequest.mockResolvedValueOnce({ data: rateSuccess });
+		await operation.execute(VALID_REQUEST);
+
+		const shipment = mockRequest.mock.calls[0]?.[0]?.data.RateRequest.Shipment;
+		expect(shipment.Shipper.ShipperNumber).toBe("");
+		expect(shipment).not.toHaveProperty("ShipmentRatingOptions");
+		expect(shipment).not.toHaveProperty("PaymentDetails");
+	});
+
+	it("itemizes charges and keeps the carrier's currency", async () => {
+		const [ground] = rateSuccess.RateResponse.RatedShipment;
+		const inCad = JSON.parse(
+			JSON.stringify(ground).replaceAll('"USD"', '"CAD"'),
+		);
+		mockRequest.mockResolvedValueOnce({
+			data: {
+				RateResponse: {
+					...rateSuccess.RateResponse,
+					RatedShipment: [ground, inCad],
+				},
+			},
+		});
+		const [usd, cad] = await operation.execute(VALID_REQUEST);
+
+		expect(usd?.charges).toEqual([
+			{
+				type: "base",
+				description: "Base service charge",
+				amount: { amount: 1105, currency: "USD" },
+			},
+			{
+				type: "transportation",
+				description: "Transportation charges",
+				amount: { amount: 1105, currency: "USD" },
+			},
+			{
+				type: "service_options",
+				description: "Service options charges",
+				amount: { amount: 0, currency: "USD" },
+			},
+			{
+				type: "fuel",
+				description: "FUEL SURCHARGE",
+				amount: { amount: 145, currency: "USD" },
+			},
+		]);
+		expect(cad?.totalCharge).toEqual({ amount: 1250, currency: "CAD" });
+		expect(cad?.charges.every((c) => c.amount.currency === "CAD")).toBe(true);
+	});
+
 	it("maps 4xx, 5xx, timeouts, and malformed responses to structured errors", async () => {
 		// validation rejects before any HTTP call
 		await expect(operation.execute({} as any)).rejects.toThrow(ValidationError);
@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { registerUpsCarrier } from "../src/carriers/ups/register.js";
+import type { Config } from "../src/config.js";
+import {
+	AuthenticationError,
+	CarrierApiError,
+	RateLimitError,
+} from "../src/core/errors.js";
+import type { RateRequest } from "../src/core/types.js";
+import { OperationRegistry } from "../src/registry/OperationRegistry.js";
+import { FakeUpsServer, scenarios } from "./support/FakeUpsServer.js";
+
+const VALID_REQUEST: RateRequest = {
+	origin: {
+		line1: "123 Main St",
+		city: "New York",
+		stateCode: "NY",
+		postalCode: "10001",
+		countryCode: "US",
+	},
+	destination: {
+		line1: "456 Oak Ave",
+		city: "Los Angeles",
+		stateCode: "CA",
+		postalCode: "90001",
+		countryCode: "US",
+	},
+	packages: [{ weightLbs: 5, lengthIn: 10, widthIn: 8, heightIn: 6 }],
+};
+
+let fake: FakeUpsServer;
+
+beforeEach(async () => {
+	fake = await FakeUpsServer.start();
+});
+
+afterEach(async () => {
+	await fake.stop();
+});
+
+function rating(clientSecret = "test-client-secret") {
+	const config: Config = {
+		server: { port: 0 },
+		ups: { clientId: "test-client-id", clientSecret, baseUrl: fake.baseUrl },
+	};
+	const registry = new OperationRegistry();
+	registerUpsCarrier(registry, config, {
+		http: { timeoutMs: 300, retry: { baseDelayMs: 1, jitter: false } },
+	});
+	return registry.resolve("ups:rating");
+}
+
+describe("UPS against the sandbox simulator", () => {
+	it("rates end to end over a real OAuth flow", async () => {
+		const ups = rating();
+
+		const quotes = await ups.execute(VALID_REQUEST);
+		await ups.execute(VALID_REQUEST);
+
+		expect(quotes.length).toBeGreaterThan(0);
+		expect(quotes[0]?.carrier).toBe("UPS");
+
+		const [token] = fake.requestsTo("token");
+		expect(fake.requestsTo("token")).toHaveLength(1);
+		expect(token?.headers["content-type"]).toBe(
+			"application/x-www-form-urlencoded",
+		);
+
+		const [first, second] = fake.requestsTo("rating");
+		expect(first?.path).toBe("/api/rating/v2409/Shop");
+		expect(first?.headers.authorization).toBe("Bearer fake-token-1");
+		expect(second?.headers.authorization).toBe("Bearer fake-token-1");
+		expect(
+			JSON.parse(first?.body ?? "{}").RateRequest.Request.TransactionReference
+				.CustomerContext,
+		).toEqual(expect.any(String));
+	});
+
+	it("fetches a new token when UPS expires the old one", async () => {
+		const ups = rating();
+		await ups.execute(VALID_REQUEST);
+
+		fake.expireTokens();
+		await expect(ups.execute(VALID_REQUEST)).resolves.not.toHaveLength(0);
+
+		expect(fake.requestsTo("token")).toHaveLength(2);
+		expect(
+			fake.requestsTo("rating").map((r) => r.headers.authorization),
+		).toEqual([
+			"Bearer fake-token-1",
+			"Bearer fake-token-1",
+			"Bearer fake-token-2",
+		]);
+	});
+
+	it("recovers from a single 401 and rejects bad client credentials", async () => {
+		fake.enqueue("rating", scenarios.unauthorized());
+		await expect(rating().execute(VALID_REQUEST)).resolves.not.toHaveLength(0);
+		expect(fake.requestsTo("token")).toHaveLength(2);
+
+		await expect(rating("wrong").execute(VALID_REQUEST)).rejects.toThrow(
+			AuthenticationError,
+		);
+	});
+
+	it("honours Retry-After on 429 and surfaces waits beyond the retry policy", async () => {
+		const ups = rating();
+
+		fake.enqueue("rating", scenarios.rateLimited(0));
+		await expect(ups.execute(VALID_REQUEST)).resolves.not.toHaveLength(0);
+
+		fake.enqueue("rating", scenarios.rateLimited(30));
+		const error = await ups.execute(VALID_REQUEST).catch((e) => e);
+		expect(error).toBeInstanceOf(RateLimitError);
+		expect(error.retryAfterMs).toBe(30_000);
+	});
+
+	it("retries 5xx until the attempts run out", async () => {
+		const ups = rating();
+
+		fake.enqueue("rating", scenarios.serverError(503), scenarios.serverError());
+		await expect(ups.execute(VALID_REQUEST)).resolves.not.toHaveLength(0);
+		expect(fake.requestsTo("rating")).toHaveLength(3);
+
+		fake.enqueue(
+			"rating",
+			scenarios.serverError(),
+			scenarios.serverError(),
+			scenarios.serverError(),
+		);
+		const error = await ups.execute(VALID_REQUEST).catch((e) => e);
+		expect(error).toBeInstanceOf(CarrierApiError);
+		expect(error.httpStatus).toBe(500);
+	});
+
+	it("rejects a malformed body without retrying it", async () => {
+		fake.enqueue("rating", scenarios.malformed());
+
+		await expect(rating().execute(VALID_REQUEST)).rejects.toThrow(
+			CarrierApiError,
+		);
+		expect(fake.requestsTo("rating")).toHaveLength(1);
+	});
+
+	it("times out a slow response and retries it", async () => {
+		fake.enqueue("rating", scenarios.slow(1_000));
+
+		await expect(rating().execute(VALID_REQUEST)).resolves.not.toHaveLength(0);
+		expect(fake.requestsTo("rating")).toHaveLength(2);
+	});
+});
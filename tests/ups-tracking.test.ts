@@ -0,0 +1,167 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import type { OperationFor } from "../src/registry/OperationCatalog.js";
+
+const fixture = (name: string) =>
+	JSON.parse(
+		readFileSync(join(process.cwd(), "tests/fixtures", name), "utf-8"),
+	);
+
+const trackSuccess = fixture("ups-track-success.json");
+const trackNotFound = fixture("ups-track-not-found.json");
+
+const mockRequest = jest.fn();
+
+jest.unstable_mockModule("axios", () => ({
+	default: {
+		create: jest.fn(() => ({ request: mockRequest })),
+		isAxiosError: jest.fn((err: unknown): err is Error => {
+			return typeof err === "object" && err !== null && "isAxiosError" in err;
+		}),
+	},
+}));
+
+const { default: mockedAxios } = await import("axios");
+const { HttpClient } = await import("../src/infra/HttpClient.js");
+const { UpsTrackingOperation } = await import(
+	"../src/carriers/ups/UpsTrackingOperation.js"
+);
+const { CarrierApiError, ValidationError } = await import(
+	"../src/core/errors.js"
+);
+const { OperationRegistry } = await import(
+	"../src/registry/OperationRegistry.js"
+);
+const { Telemetry, withCorrelationId } = await import(
+	"../src/infra/Telemetry.js"
+);
+
+const stubAuth = {
+	accessToken: jest.fn<() => Promise<string>>().mockResolvedValue("tok"),
+	clearToken: jest.fn(),
+};
+
+const logger = {
+	debug: jest.fn(),
+	info: jest.fn(),
+	warn: jest.fn(),
+	error: jest.fn(),
+};
+
+let operation: OperationFor<"tracking">;
+
+beforeEach(() => {
+	jest.clearAllMocks();
+	(mockedAxios.create as jest.Mock).mockReturnValue({ request: mockRequest });
+	const http = new HttpClient({
+		baseURL: "https://onlinetools.ups.com",
+		auth: stubAuth,
+	});
+	const registry = new OperationRegistry();
+	registry.register(
+		"ups:tracking",
+		new UpsTrackingOperation(http, new Telemetry({ logger })),
+	);
+	operation = registry.resolve("ups:tracking");
+});
+
+describe("UPS tracking operation", () => {
+	it("requests tracking details for the inquiry number", async () => {
+		mockRequest.mockResolvedValueOnce({ data: trackSuccess });
+		await operation.execute({ trackingNumber: "1Z12345E0205271688" });
+
+		const call = mockRequest.mock.calls[0]?.[0] as any;
+		expect(call.method).toBe("GET");
+		expect(call.url).toBe("/api/track/v1/details/1Z12345E0205271688");
+		expect(call.headers).toMatchObject({
+			transId: expect.stringMatching(/^[0-9a-f]{32}$/),
+			transactionSrc: "cybership",
+		});
+	});
+
+	it("sends a correlation ID UPS accepts as the transaction ID", async () => {
+		mockRequest.mockResolvedValueOnce({ data: trackSuccess });
+		await withCorrelationId(
+			() => operation.execute({ trackingNumber: "1Z12345E0205271688" }),
+			"order42",
+		);
+
+		const call = mockRequest.mock.calls[0]?.[0] as any;
+		expect(call.headers.transId).toBe("order42");
+		expect(logger.info).not.toHaveBeenCalledWith(
+			"carrier transaction id",
+			expect.anything(),
+		);
+	});
+
+	it("logs the transaction ID it sends in place of a correlation ID UPS rejects", async () => {
+		const correlationId = "order-42:a-correlation-id-longer-than-ups-allows";
+		mockRequest.mockResolvedValueOnce({ data: trackSuccess });
+		await withCorrelationId(
+			() => operation.execute({ trackingNumber: "1Z12345E0205271688" }),
+			correlationId,
+		);
+
+		const { transId } = (mockRequest.mock.calls[0]?.[0] as any).headers;
+		expect(transId).toMatch(/^[0-9a-f]{32}$/);
+		expect(logger.info).toHaveBeenCalledWith("carrier transaction id", {
+			carrier: "ups",
+			correlationId,
+			transactionId: transId,
+		});
+	});
+
+	it("normalizes UPS activity into an oldest-first event timeline", async () => {
+		mockRequest.mockResolvedValueOnce({ data: trackSuccess });
+		const result = await operation.execute({
+			trackingNumber: "1Z12345E0205271688",
+		});
+
+		expect(result).toMatchObject({
+			carrier: "UPS",
+			trackingNumber: "1Z12345E0205271688",
+			status: "out_for_delivery",
+			estimatedDeliveryDate: "2026-02-20",
+		});
+		expect(result.events.map((e) => e.status)).toEqual([
+			"label_created",
+			"in_transit",
+			"in_transit",
+			"out_for_delivery",
+		]);
+		expect(result.events[1]).toEqual({
+			status: "in_transit",
+			description: "Pickup Scan",
+			timestamp: "2026-02-17T18:45:00-05:00",
+			location: { city: "Secaucus", stateCode: "NJ", countryCode: "US" },
+		});
+		// the label activity carries no offset, only UPS's GMT date and time
+		expect(result.events[0]?.timestamp).toBe("2026-02-17T15:23:00Z");
+		// no UPS-specific activity codes leak into domain events
+		for (const event of result.events) {
+			expect(event).not.toHaveProperty("code");
+			expect(event).not.toHaveProperty("type");
+		}
+	});
+
+	it("maps unknown tracking numbers and malformed responses to structured errors", async () => {
+		await expect(operation.execute({ trackingNumber: "" })).rejects.toThrow(
+			ValidationError,
+		);
+
+		mockRequest.mockResolvedValueOnce({ data: trackNotFound });
+		await expect(
+			operation.execute({ trackingNumber: "1Z0000000000000000" }),
+		).rejects.toMatchObject({
+			httpStatus: 404,
+			carrierCode: "TW0001",
+			message: "Tracking Information Not Found",
+		});
+
+		mockRequest.mockResolvedValueOnce({ data: { trackResponse: {} } });
+		await expect(
+			operation.execute({ trackingNumber: "1Z12345E0205271688" }),
+		).rejects.toThrow(CarrierApiError);
+	});
+});
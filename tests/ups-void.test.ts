@@ -0,0 +1,136 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import type { OperationFor } from "../src/registry/OperationCatalog.js";
+
+const fixture = (name: string) =>
+	JSON.parse(
+		readFileSync(join(process.cwd(), "tests/fixtures", name), "utf-8"),
+	);
+
+const voidSuccess = fixture("ups-void-success.json");
+const voidInTransit = fixture("ups-void-in-transit.json");
+
+const mockRequest = jest.fn();
+
+jest.unstable_mockModule("axios", () => ({
+	default: {
+		create: jest.fn(() => ({ request: mockRequest })),
+		isAxiosError: jest.fn((err: unknown): err is Error => {
+			return typeof err === "object" && err !== null && "isAxiosError" in err;
+		}),
+	},
+}));
+
+const { default: mockedAxios } = await import("axios");
+const { HttpClient } = await import("../src/infra/HttpClient.js");
+const { UpsVoidOperation } = await import(
+	"../src/carriers/ups/UpsVoidOperation.js"
+);
+const { CarrierApiError, ShipmentInTransitError, ValidationError } =
+	await import("../src/core/errors.js");
+const { OperationRegistry } = await import(
+	"../src/registry/OperationRegistry.js"
+);
+
+const stubAuth = {
+	accessToken: jest.fn<() => Promise<string>>().mockResolvedValue("tok"),
+	clearToken: jest.fn(),
+};
+
+function axiosError(status: number, data?: unknown) {
+	const err = new Error(`HTTP ${status}`) as any;
+	err.isAxiosError = true;
+	err.response = { status, data };
+	return err;
+}
+
+let operation: OperationFor<"void">;
+
+beforeEach(() => {
+	jest.clearAllMocks();
+	(mockedAxios.create as jest.Mock).mockReturnValue({ request: mockRequest });
+	const http = new HttpClient({
+		baseURL: "https://onlinetools.ups.com",
+		auth: stubAuth,
+		// retries are covered in http-retry.test.ts
+		retry: { maxAttempts: 1 },
+	});
+	const registry = new OperationRegistry();
+	registry.register("ups:void", new UpsVoidOperation(http));
+	operation = registry.resolve("ups:void");
+});
+
+describe("UPS void operation", () => {
+	it("voids selected packages and reports per-package outcomes", async () => {
+		mockRequest.mockResolvedValueOnce({ data: voidSuccess });
+		const result = await operation.execute({
+			shipmentId: "1Z12345E0205271688",
+			trackingNumbers: ["1Z12345E0205271688", "1Z12345E0291980793"],
+		});
+
+		const call = mockRequest.mock.calls[0]?.[0] as any;
+		expect(call.method).toBe("DELETE");
+		expect(call.url).toBe(
+			"/api/shipments/v2409/void/cancel/1Z12345E0205271688",
+		);
+		expect(call.params).toEqual({
+			trackingnumber: '["1Z12345E0205271688","1Z12345E0291980793"]',
+		});
+
+		expect(result).toEqual({
+			carrier: "UPS",
+			shipmentId: "1Z12345E0205271688",
+			voided: true,
+			packages: [
+				{ trackingNumber: "1Z12345E0205271688", voided: true },
+				{
+					trackingNumber: "1Z12345E0291980793",
+					voided: false,
+					reason: "Not Voided",
+				},
+			],
+		});
+	});
+
+	it("voids a whole shipment when no tracking numbers are given", async () => {
+		const { PackageLevelResult: _, ...shipmentOnly } =
+			voidSuccess.VoidShipmentResponse;
+		mockRequest.mockResolvedValueOnce({
+			data: { VoidShipmentResponse: shipmentOnly },
+		});
+
+		const result = await operation.execute({
+			shipmentId: "1Z12345E0205271688",
+		});
+
+		expect((mockRequest.mock.calls[0]?.[0] as any).params).toBeUndefined();
+		expect(result.voided).toBe(true);
+		expect(result.packages).toEqual([]);
+	});
+
+	it("raises ShipmentInTransitError when UPS refuses an in-transit package", async () => {
+		mockRequest.mockRejectedValueOnce(axiosError(400, voidInTransit));
+
+		await expect(
+			operation.execute({ shipmentId: "1Z12345E0205271688" }),
+		).rejects.toMatchObject({
+			code: "SHIPMENT_IN_TRANSIT",
+			shipmentId: "1Z12345E0205271688",
+			message: "The package has already been picked up and cannot be voided.",
+		});
+	});
+
+	it("keeps other failures as validation or carrier errors", async () => {
+		await expect(operation.execute({ shipmentId: "" })).rejects.toThrow(
+			ValidationError,
+		);
+
+		mockRequest.mockRejectedValueOnce(axiosError(500));
+		const error = await operation
+			.execute({ shipmentId: "1Z12345E0205271688" })
+			.catch((e: unknown) => e);
+		expect(error).toBeInstanceOf(CarrierApiError);
+		expect(error).not.toBeInstanceOf(ShipmentInTransitError);
+	});
+});
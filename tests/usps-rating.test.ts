@@ -0,0 +1,252 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import type axios from "axios";
+
+const fixture = (name: string) =>
+	JSON.parse(
+		readFileSync(join(process.cwd(), "tests/fixtures", name), "utf-8"),
+	);
+
+const tokenSuccess = fixture("usps-token-success.json");
+const rateSuccess = fixture("usps-rate-success.json");
+
+const mockRequest = jest.fn();
+
+jest.unstable_mockModule("axios", () => ({
+	default: {
+		post: jest.fn(),
+		create: jest.fn(() => ({ request: mockRequest })),
+		isAxiosError: jest.fn((err: unknown): err is Error => {
+			return typeof err === "object" && err !== null && "isAxiosError" in err;
+		}),
+	},
+}));
+
+const { default: mockedAxios } = await import("axios");
+const mockedPost = mockedAxios.post as jest.MockedFunction<typeof axios.post>;
+
+const { UspsAuthClient } = await import(
+	"../src/carriers/usps/UspsAuthClient.js"
+);
+const { HttpClient } = await import("../src/infra/HttpClient.js");
+const { UspsRatingOperation } = await import(
+	"../src/carriers/usps/UspsRatingOperation.js"
+);
+const { CarrierApiError, ValidationError } = await import(
+	"../src/core/errors.js"
+);
+
+const USPS_CONFIG = {
+	clientId: "test-client-id",
+	clientSecret: "test-client-secret",
+	baseUrl: "https://apis-tem.usps.com",
+};
+
+const VALID_REQUEST = {
+	origin: {
+		line1: "123 Main St",
+		city: "New York",
+		stateCode: "NY",
+		postalCode: "10001-1234",
+		countryCode: "US",
+	},
+	destination: {
+		line1: "456 Oak Ave",
+		city: "Los Angeles",
+		stateCode: "CA",
+		postalCode: "90001",
+		countryCode: "US",
+	},
+	packages: [{ weightLbs: 5, lengthIn: 10, widthIn: 8, heightIn: 6 }],
+};
+
+let operation: InstanceType<typeof UspsRatingOperation>;
+
+beforeEach(() => {
+	jest.clearAllMocks();
+	(mockedAxios.create as jest.Mock).mockReturnValue({ request: mockRequest });
+	mockedPost.mockResolvedValue({ data: tokenSuccess } as any);
+	const auth = new UspsAuthClient(USPS_CONFIG);
+	const http = new HttpClient({ baseURL: USPS_CONFIG.baseUrl, auth });
+	operation = new UspsRatingOperation(http);
+});
+
+describe("USPS rating operation", () => {
+	it("builds one USPS price request per package", async () => {
+		mockRequest.mockResolvedValue({ data: rateSuccess });
+		await operation.execute({
+			...VALID_REQUEST,
+			packages: [
+				{ weightLbs: 5, lengthIn: 10, widthIn: 8, heightIn: 6 },
+				{ weightLbs: 2, lengthIn: 6, widthIn: 6, heightIn: 4 },
+			],
+		});
+
+		expect(mockRequest).toHaveBeenCalledTimes(2);
+		const [first, second] = mockRequest.mock.calls.map((c) => c[0] as any);
+		expect(first.url).toBe("/prices/v3/base-rates-list/search");
+		expect(first.headers.Authorization).toBe(
+			`Bearer ${tokenSuccess.access_token}`,
+		);
+		expect(first.data).toEqual({
+			originZIPCode: "10001",
+			destinationZIPCode: "90001",
+			weight: 5,
+			length: 10,
+			width: 8,
+			height: 6,
+			mailClasses: [
+				"USPS_GROUND_ADVANTAGE",
+				"PRIORITY_MAIL",
+				"PRIORITY_MAIL_EXPRESS",
+			],
+			priceType: "COMMERCIAL",
+		});
+		expect(second.data.weight).toBe(2);
+	});
+
+	it("maps service tiers and flat-rate packaging into RateQuote[]", async () => {
+		mockRequest.mockResolvedValueOnce({ data: rateSuccess });
+		const quotes = await operation.execute(VALID_REQUEST);
+
+		expect(quotes).toEqual([
+			{
+				carrier: "USPS",
+				billableWeight: { value: 5, unit: "lb", basis: "actual" },
+				serviceCode: "USPS_GROUND_ADVANTAGE",
+				serviceName: "USPS Ground Advantage",
+				totalCharge: { amount: 935, currency: "USD" },
+				charges: [
+					{
+						type: "base",
+						description: "Postage",
+						amount: { amount: 935, currency: "USD" },
+					},
+				],
+			},
+			{
+				carrier: "USPS",
+				billableWeight: { value: 5, unit: "lb", basis: "actual" },
+				serviceCode: "PRIORITY_MAIL",
+				serviceName: "Priority Mail",
+				totalCharge: { amount: 1840, currency: "USD" },
+				charges: [
+					{
+						type: "base",
+						description: "Postage",
+						amount: { amount: 1840, currency: "USD" },
+					},
+				],
+			},
+			{
+				carrier: "USPS",
+				billableWeight: { value: 5, unit: "lb", basis: "actual" },
+				serviceCode: "PRIORITY_MAIL:FB",
+				serviceName: "Priority Mail Medium Flat Rate Box",
+				totalCharge: { amount: 1610, currency: "USD" },
+				charges: [
+					{
+						type: "base",
+						description: "Postage",
+						amount: { amount: 1610, currency: "USD" },
+					},
+				],
+			},
+			{
+				carrier: "USPS",
+				billableWeight: { value: 5, unit: "lb", basis: "actual" },
+				serviceCode: "PRIORITY_MAIL_EXPRESS",
+				serviceName: "Priority Mail Express",
+				totalCharge: { amount: 7145, currency: "USD" },
+				charges: [
+					{
+						type: "base",
+						description: "Postage",
+						amount: { amount: 7145, currency: "USD" },
+					},
+				],
+			},
+		]);
+	});
+
+	it("sums multi-package quotes and drops services not offered for every package", async () => {
+		const withoutFlatRate = {
+			rateOptions: rateSuccess.rateOptions.filter(
+				(o: any) => o.rates[0].rateIndicator !== "FB",
+			),
+		};
+		mockRequest
+			.mockResolvedValueOnce({ data: rateSuccess })
+			.mockResolvedValueOnce({ data: withoutFlatRate });
+
+		const quotes = await operation.execute({
+			...VALID_REQUEST,
+			packages: [
+				{ weightLbs: 5, lengthIn: 10, widthIn: 8, heightIn: 6 },
+				{ weightLbs: 5, lengthIn: 10, widthIn: 8, heightIn: 6 },
+			],
+		});
+
+		expect(quotes.map((q) => [q.serviceCode, q.totalCharge.amount])).toEqual([
+			["USPS_GROUND_ADVANTAGE", 1870],
+			["PRIORITY_MAIL", 3680],
+			["PRIORITY_MAIL_EXPRESS", 14290],
+		]);
+		expect(quotes[0]?.charges).toEqual([
+			{
+				type: "base",
+				description: "Postage",
+				amount: { amount: 1870, currency: "USD" },
+			},
+		]);
+	});
+
+	it("quotes the cheapest option once when USPS repeats a mail class for a package", async () => {
+		const [groundAdvantage] = rateSuccess.rateOptions;
+		const repeated = {
+			rateOptions: [
+				...rateSuccess.rateOptions,
+				{
+					...groundAdvantage,
+					totalBasePrice: 8.9,
+					rates: [
+						{ ...groundAdvantage.rates[0], rateIndicator: "DR", price: 8.9 },
+					],
+				},
+			],
+		};
+		mockRequest
+			.mockResolvedValueOnce({ data: repeated })
+			.mockResolvedValueOnce({ data: repeated });
+
+		const quotes = await operation.execute({
+			...VALID_REQUEST,
+			packages: [
+				{ weightLbs: 5, lengthIn: 10, widthIn: 8, heightIn: 6 },
+				{ weightLbs: 5, lengthIn: 10, widthIn: 8, heightIn: 6 },
+			],
+		});
+
+		const ground = quotes.filter(
+			(q) => q.serviceCode === "USPS_GROUND_ADVANTAGE",
+		);
+		expect(ground).toHaveLength(1);
+		expect(ground[0]?.totalCharge).toEqual({ amount: 1780, currency: "USD" });
+	});
+
+	it("rejects international lanes and malformed responses", async () => {
+		await expect(
+			operation.execute({
+				...VALID_REQUEST,
+				destination: { ...VALID_REQUEST.destination, countryCode: "CA" },
+			}),
+		).rejects.toThrow(ValidationError);
+		expect(mockRequest).not.toHaveBeenCalled();
+
+		mockRequest.mockResolvedValueOnce({ data: { rates: [] } });
+		await expect(operation.execute(VALID_REQUEST)).rejects.toThrow(
+			CarrierApiError,
+		);
+	});
+});